@@ -0,0 +1,88 @@
+import React from 'react';
+import { Camera, SwitchCamera } from 'lucide-react';
+import {
+  CameraConfig,
+  CameraDevice,
+  FRAME_RATES,
+  RESOLUTION_PRESETS,
+  ResolutionPresetId,
+} from '@/lib/camera';
+
+interface CameraSettingsProps {
+  config: CameraConfig;
+  onChange: (config: CameraConfig) => void;
+  devices: CameraDevice[];
+  activeDeviceId: string | null;
+  showFacingToggle: boolean;
+  switching: boolean;
+}
+
+const selectClassName =
+  'px-2 py-1 rounded border border-border bg-secondary text-secondary-foreground font-mono text-xs disabled:opacity-50';
+
+const CameraSettings: React.FC<CameraSettingsProps> = ({
+  config,
+  onChange,
+  devices,
+  activeDeviceId,
+  showFacingToggle,
+  switching,
+}) => (
+  <div className="flex items-center gap-3 flex-wrap font-mono text-xs text-muted-foreground">
+    <span className="flex items-center gap-1.5">
+      <Camera className="w-3 h-3" />
+      Camera:
+    </span>
+    {devices.length > 0 && (
+      <select
+        value={config.deviceId ?? activeDeviceId ?? ''}
+        disabled={switching}
+        onChange={e => onChange({ ...config, deviceId: e.target.value })}
+        className={selectClassName}
+      >
+        {!(config.deviceId ?? activeDeviceId) && <option value="">Default</option>}
+        {devices.map(d => (
+          <option key={d.deviceId} value={d.deviceId}>{d.label}</option>
+        ))}
+      </select>
+    )}
+
+    <select
+      value={config.resolution}
+      disabled={switching}
+      onChange={e => onChange({ ...config, resolution: e.target.value as ResolutionPresetId })}
+      className={selectClassName}
+    >
+      {RESOLUTION_PRESETS.map(p => (
+        <option key={p.id} value={p.id}>{p.id} ({p.width}×{p.height})</option>
+      ))}
+    </select>
+
+    <select
+      value={config.frameRate}
+      disabled={switching}
+      onChange={e => onChange({ ...config, frameRate: Number(e.target.value) })}
+      className={selectClassName}
+    >
+      {FRAME_RATES.map(fps => (
+        <option key={fps} value={fps}>{fps} fps</option>
+      ))}
+    </select>
+
+    {showFacingToggle && (
+      <button
+        onClick={() =>
+          // A specific device would override the facing mode
+          onChange({ ...config, deviceId: null, facingMode: config.facingMode === 'user' ? 'environment' : 'user' })
+        }
+        disabled={switching}
+        className="flex items-center gap-1.5 px-2 py-1 rounded border border-border hover:text-foreground transition-colors disabled:opacity-50"
+      >
+        <SwitchCamera className="w-3 h-3" />
+        {config.facingMode === 'user' ? 'Front' : 'Back'}
+      </button>
+    )}
+  </div>
+);
+
+export default CameraSettings;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+
+export interface PickerCandidate {
+  id: number;
+  label: string;
+  thumbnail: string; // data URL of the bbox crop
+}
+
+interface CandidatePickerProps {
+  position: { x: number; y: number } | null; // relative to the positioned parent; null = closed
+  candidates: PickerCandidate[];
+  onPick: (id: number) => void;
+  onClose: () => void;
+}
+
+// Lets the user choose between overlapping subjects under a click
+const CandidatePicker: React.FC<CandidatePickerProps> = ({ position, candidates, onPick, onClose }) => (
+  <Popover open={!!position} onOpenChange={open => !open && onClose()}>
+    <PopoverAnchor asChild>
+      <span
+        className="absolute w-px h-px pointer-events-none"
+        style={{ left: position?.x ?? 0, top: position?.y ?? 0 }}
+      />
+    </PopoverAnchor>
+    <PopoverContent className="w-auto p-2" sideOffset={8}>
+      <p className="px-1 pb-2 font-mono text-xs text-muted-foreground">Which one?</p>
+      <div className="flex gap-2">
+        {candidates.map(c => (
+          <button
+            key={c.id}
+            onClick={() => onPick(c.id)}
+            className="flex flex-col items-center gap-1 p-1 rounded border border-border hover:border-primary/50 hover:bg-primary/10 transition-colors"
+          >
+            <img src={c.thumbnail} alt={c.label} className="w-12 h-16 object-cover rounded-sm bg-muted" />
+            <span className="font-mono text-[10px] text-foreground">{c.label}</span>
+          </button>
+        ))}
+      </div>
+    </PopoverContent>
+  </Popover>
+);
+
+export default CandidatePicker;
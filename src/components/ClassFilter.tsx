@@ -0,0 +1,56 @@
+import React from 'react';
+import { ChevronDown, Tags } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { COCO_CLASSES, COMMON_CLASSES } from '@/lib/cocoClasses';
+
+interface ClassFilterProps {
+  classes: string[];
+  onChange: (classes: string[]) => void;
+}
+
+const OTHER_CLASSES = COCO_CLASSES.filter(c => !COMMON_CLASSES.includes(c));
+
+const ClassFilter: React.FC<ClassFilterProps> = ({ classes, onChange }) => {
+  const toggle = (cls: string, checked: boolean) => {
+    const next = checked ? [...classes, cls] : classes.filter(c => c !== cls);
+    // Tracking nothing would silently disable focus; keep at least one class
+    if (next.length > 0) onChange(next);
+  };
+
+  const item = (cls: string) => (
+    <DropdownMenuCheckboxItem
+      key={cls}
+      checked={classes.includes(cls)}
+      onCheckedChange={checked => toggle(cls, checked)}
+      onSelect={e => e.preventDefault()}
+      className="font-mono text-xs capitalize"
+    >
+      {cls}
+    </DropdownMenuCheckboxItem>
+  );
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="flex items-center gap-1.5 px-2 py-1 rounded border border-border bg-secondary text-secondary-foreground font-mono text-xs hover:text-foreground transition-colors">
+        <Tags className="w-3 h-3" />
+        {classes.length === 1 ? classes[0] : `${classes.length} classes`}
+        <ChevronDown className="w-3 h-3" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-h-80 overflow-y-auto">
+        <DropdownMenuLabel className="font-mono text-xs">Track classes</DropdownMenuLabel>
+        {COMMON_CLASSES.map(item)}
+        <DropdownMenuSeparator />
+        {OTHER_CLASSES.map(item)}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ClassFilter;
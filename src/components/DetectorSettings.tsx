@@ -0,0 +1,65 @@
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import {
+  DETECTOR_MODELS,
+  DetectorConfig,
+  DetectorModelId,
+  TF_BACKENDS,
+  TfBackend,
+} from '@/lib/detector';
+
+export interface DetectorInfo {
+  label: string;
+  backend: string;
+  inWorker: boolean;
+}
+
+interface DetectorSettingsProps {
+  config: DetectorConfig;
+  onChange: (config: DetectorConfig) => void;
+  info: DetectorInfo | null;
+  latencyMs: number;
+  loading: boolean;
+}
+
+const selectClassName =
+  'px-2 py-1 rounded border border-border bg-secondary text-secondary-foreground font-mono text-xs disabled:opacity-50';
+
+const DetectorSettings: React.FC<DetectorSettingsProps> = ({ config, onChange, info, latencyMs, loading }) => (
+  <div className="flex items-center gap-3 flex-wrap font-mono text-xs text-muted-foreground">
+    <span className="flex items-center gap-1.5">
+      <Cpu className="w-3 h-3" />
+      Detector:
+    </span>
+    <select
+      value={config.model}
+      disabled={loading}
+      onChange={e => onChange({ ...config, model: e.target.value as DetectorModelId })}
+      className={selectClassName}
+    >
+      {DETECTOR_MODELS.map(m => (
+        <option key={m.id} value={m.id}>{m.label}</option>
+      ))}
+    </select>
+
+    <span>Backend:</span>
+    <select
+      value={config.backend}
+      disabled={loading || config.model === 'mock'}
+      onChange={e => onChange({ ...config, backend: e.target.value as TfBackend | 'auto' })}
+      className={selectClassName}
+    >
+      {TF_BACKENDS.map(b => (
+        <option key={b} value={b}>{b}</option>
+      ))}
+    </select>
+
+    {info && !loading && (
+      <span className="text-foreground/80">
+        Active: {info.label} · {info.backend} · {info.inWorker ? 'worker' : 'main thread'} · {latencyMs}ms
+      </span>
+    )}
+  </div>
+);
+
+export default DetectorSettings;
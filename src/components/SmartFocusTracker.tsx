@@ -1,67 +1,367 @@
 import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { PersonTracker, TrackedPerson, findPersonAtPoint, Detection } from '@/lib/tracker';
-import { renderWithSelectiveBlur } from '@/lib/blurRenderer';
-import { Camera, Upload, X, Focus, Users, Zap, AlertCircle, Loader2 } from 'lucide-react';
+import {
+  PersonTracker,
+  TrackedPerson,
+  Detection,
+  HitCandidate,
+  findNearestPerson,
+  isAmbiguousHit,
+  rankPersonsAtPoint,
+} from '@/lib/tracker';
+import { BlurMode, DEFAULT_FOCUS_OPTIONS, createFocusState, renderWithSelectiveBlur } from '@/lib/blurRenderer';
+import { embeddingSimilarity } from '@/lib/appearance';
+import {
+  DEFAULT_OVERLAY_OPTIONS,
+  OVERLAY_LABELS,
+  OverlayOptions,
+  TrailHistory,
+  drawTrackingOverlay,
+  themeColor,
+} from '@/lib/overlayRenderer';
+import { PersonSegmentation, buildTrackMask, loadSegmenter, segmentPersons } from '@/lib/segmentation';
+import { exportVideo } from '@/lib/videoExport';
+import { AsyncDetector } from '@/lib/asyncDetector';
+import { DEFAULT_DETECTOR_CONFIG, DetectorConfig } from '@/lib/detector';
+import DetectorSettings, { DetectorInfo } from '@/components/DetectorSettings';
+import ClassFilter from '@/components/ClassFilter';
+import TrackerTuningPanel from '@/components/TrackerTuningPanel';
+import { StoredTrackerConfig, loadTrackerConfig, saveTrackerConfig } from '@/lib/trackerConfig';
+import CandidatePicker, { PickerCandidate } from '@/components/CandidatePicker';
+import TrackLogPanel, { DetectionSourceInfo } from '@/components/TrackLogPanel';
+import { AUTO_FOCUS_POLICIES, AutoFocus, AutoFocusPolicy } from '@/lib/autoFocus';
+import { LOSS_BEHAVIORS, LockMonitor, LockState, LockStatus, LockTransition, LossBehavior } from '@/lib/lockState';
+import { toast } from '@/hooks/use-toast';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { Gesture, GestureRecognizer } from '@/lib/gestures';
+import { RecordedDetections, TrackLogger, parseDetections, toMotCsv, toTrackLogJson } from '@/lib/trackLog';
+import { DEFAULT_SCHEDULER_SETTINGS, DetectionScheduler } from '@/lib/detectionScheduler';
+import { BoxSmoother, DEFAULT_SMOOTHING_CONFIG, SMOOTHING_METHODS, SmoothingConfig } from '@/lib/boxSmoothing';
+import {
+  CameraConfig,
+  CameraDevice,
+  DEFAULT_CAMERA_CONFIG,
+  activeDeviceId,
+  cameraErrorMessage,
+  listCameras,
+  openCamera,
+} from '@/lib/camera';
+import CameraSettings from '@/components/CameraSettings';
+import ToggleButton from '@/components/ToggleButton';
+import { CanvasRecorder, RecordingState } from '@/lib/recorder';
+import { downloadBlob, timestampedFilename } from '@/lib/download';
+import type { BodyPix } from '@tensorflow-models/body-pix';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { Camera, Upload, X, Focus, Users, Zap, AlertCircle, Loader2, Download, Circle, Pause, Play, Square, BatteryLow, Layers, ZoomOut } from 'lucide-react';
 
 type InputMode = 'none' | 'camera' | 'file';
 type ModelStatus = 'idle' | 'loading' | 'ready' | 'error';
+type FocusMode = 'bbox' | 'segmentation';
+
+const LOCK_LABELS: Record<LockState, string> = {
+  locked: 'LOCKED',
+  coasting: 'COASTING',
+  searching: 'SEARCHING',
+  lost: 'LOST',
+};
+
+// Badge colour per focused subject, by selection order
+const SUBJECT_COLORS = ['--primary', '--warning', '--success', '--info'];
+const subjectColor = (index: number) => `hsl(var(${SUBJECT_COLORS[index % SUBJECT_COLORS.length]}))`;
+
+// Tap tolerance around boxes, in CSS px; fingers are less precise than a mouse
+const TAP_TOLERANCE = 16;
+const TAP_TOLERANCE_MOBILE = 32;
+const MAX_ZOOM = 4;
+const MAX_PICKER_CANDIDATES = 4;
+
+const TARGET_FPS_OPTIONS = [15, 24, 30, 60];
+const EXPORT_FPS = 30;
+const EXPORT_MATCH_THRESHOLD = 0.8; // appearance similarity to carry a selection into the export
+
+// Badge label for a track, e.g. "Dog #3"
+function trackLabel(id: number, cls = 'person'): string {
+  return `${cls.charAt(0).toUpperCase()}${cls.slice(1)} #${id}`;
+}
+
+// Small JPEG of a track's box, for the overlap picker
+function trackThumbnail(video: HTMLVideoElement, bbox: [number, number, number, number]): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = 48;
+  canvas.height = 64;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  const [x, y, w, h] = bbox;
+  // Crop to the thumbnail's aspect so the subject isn't squashed
+  const cropW = Math.min(w, (h * canvas.width) / canvas.height);
+  const cropH = Math.min(h, (w * canvas.height) / canvas.width);
+  ctx.drawImage(video, x + (w - cropW) / 2, y + (h - cropH) / 2, cropW, cropH, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+}
+
+function reportCameraError(err: unknown) {
+  console.error('Camera error:', err);
+  toast({ variant: 'destructive', title: 'Camera unavailable', description: cameraErrorMessage(err) });
+}
+
+function formatDuration(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+// Per-pixel masks for the focused persons, reusing one canvas per track; bbox clipping for any without one
+// (BodyPix only segments people, so other classes always use their box)
+function buildMasks(
+  seg: PersonSegmentation,
+  persons: TrackedPerson[],
+  focusIds: ReadonlySet<number>,
+  canvases: Map<number, HTMLCanvasElement>,
+  video: HTMLVideoElement
+): Map<number, HTMLCanvasElement> {
+  const masks = new Map<number, HTMLCanvasElement>();
+  for (const person of persons) {
+    if (!focusIds.has(person.id) || person.class !== 'person') continue;
+    let maskCanvas = canvases.get(person.id);
+    if (!maskCanvas) {
+      maskCanvas = document.createElement('canvas');
+      canvases.set(person.id, maskCanvas);
+    }
+    if (buildTrackMask(seg, person.bbox, video.videoWidth, video.videoHeight, maskCanvas)) {
+      masks.set(person.id, maskCanvas);
+    }
+  }
+  // Drop canvases of tracks that are gone
+  for (const id of canvases.keys()) {
+    if (!persons.some(p => p.id === id)) canvases.delete(id);
+  }
+  return masks;
+}
 
 const SmartFocusTracker: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const animFrameRef = useRef<number>(0);
+  const [trackerSettings, setTrackerSettings] = useState<StoredTrackerConfig>(loadTrackerConfig);
   const trackerRef = useRef(new PersonTracker());
-  const modelRef = useRef<any>(null);
+  const detectorRef = useRef<AsyncDetector | null>(null);
+  const loadedConfigRef = useRef<DetectorConfig | null>(null); // config of the detector in `detectorRef`
+  const schedulerRef = useRef(new DetectionScheduler());
+  const segmenterRef = useRef<BodyPix | null>(null);
+  const segmentationRef = useRef<PersonSegmentation | null>(null);
+  const maskCanvasesRef = useRef(new Map<number, HTMLCanvasElement>());
+  const focusStateRef = useRef(createFocusState());
+  const trailsRef = useRef(new TrailHistory());
+  const smootherRef = useRef(new BoxSmoother());
+  const displayedRef = useRef<TrackedPerson[]>([]); // smoothed boxes as last drawn, for hit-testing
+  const trackLogRef = useRef(new TrackLogger());
+  const recordedRef = useRef<RecordedDetections | null>(null);
+  // Last consumed detection result and recorded frame; they outlive render-loop restarts so none is fed twice
+  const lastDetectionTimeRef = useRef(0);
+  const lastRecordedFrameRef = useRef(0);
+  const autoFocusRef = useRef(new AutoFocus());
+  const lockMonitorRef = useRef(new LockMonitor());
+  const recognizerRef = useRef<GestureRecognizer | null>(null);
+  const gestureHandlerRef = useRef<(gesture: Gesture) => void>(() => {});
+  const lastPointerTypeRef = useRef('mouse');
+  const isMobile = useIsMobile();
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const recorderRef = useRef(new CanvasRecorder());
+  const micStreamRef = useRef<MediaStream | null>(null);
 
   const [inputMode, setInputMode] = useState<InputMode>('none');
   const [modelStatus, setModelStatus] = useState<ModelStatus>('idle');
-  const [selectedPersonId, setSelectedPersonId] = useState<number | null>(null);
+  const [detectorConfig, setDetectorConfig] = useState<DetectorConfig>(DEFAULT_DETECTOR_CONFIG);
+  const [detectorInfo, setDetectorInfo] = useState<DetectorInfo | null>(null);
+  const [trackedClasses, setTrackedClasses] = useState<string[]>(['person']);
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<number>>(new Set());
+  const [focusAll, setFocusAll] = useState(false);
   const [trackedPersons, setTrackedPersons] = useState<TrackedPerson[]>([]);
   const [fps, setFps] = useState(0);
+  const [detectRate, setDetectRate] = useState(0);
+  const [detectLatency, setDetectLatency] = useState(0);
+  const [targetFps, setTargetFps] = useState(DEFAULT_SCHEDULER_SETTINGS.targetFps);
+  const [logging, setLogging] = useState(false);
+  const [loggedFrames, setLoggedFrames] = useState(0);
+  const [detectionSource, setDetectionSource] = useState<DetectionSourceInfo | null>(null);
+  const [sourceFps, setSourceFps] = useState(30);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [autoPolicy, setAutoPolicy] = useState<AutoFocusPolicy>('off');
+  const [autoFocusId, setAutoFocusId] = useState<number | null>(null);
+  const [lossBehavior, setLossBehavior] = useState<LossBehavior>('hold');
+  const [lockStatuses, setLockStatuses] = useState<ReadonlyMap<number, LockStatus>>(new Map());
+  const [blurCleared, setBlurCleared] = useState(false);
+  const [zoom, setZoom] = useState(1);
+  const [picker, setPicker] = useState<{
+    position: { x: number; y: number };
+    candidates: PickerCandidate[];
+    additive: boolean;
+  } | null>(null);
+  const [overlay, setOverlay] = useState<OverlayOptions>(DEFAULT_OVERLAY_OPTIONS);
+  const [powerSaver, setPowerSaver] = useState(DEFAULT_SCHEDULER_SETTINGS.powerSaver);
   const [blurAmount, setBlurAmount] = useState(15);
+  const [feather, setFeather] = useState(DEFAULT_FOCUS_OPTIONS.feather);
+  const [transitionMs, setTransitionMs] = useState(DEFAULT_FOCUS_OPTIONS.transitionMs);
+  const [blurMode, setBlurMode] = useState<BlurMode>(DEFAULT_FOCUS_OPTIONS.blurMode);
+  const [smoothing, setSmoothing] = useState<SmoothingConfig>(DEFAULT_SMOOTHING_CONFIG);
+  const [cameraConfig, setCameraConfig] = useState<CameraConfig>(DEFAULT_CAMERA_CONFIG);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [activeCameraId, setActiveCameraId] = useState<string | null>(null);
+  const [switchingCamera, setSwitchingCamera] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [focusMode, setFocusMode] = useState<FocusMode>('bbox');
+  const [segmenterStatus, setSegmenterStatus] = useState<ModelStatus>('idle');
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [recordingState, setRecordingState] = useState<RecordingState>('inactive');
+  const [recordingMs, setRecordingMs] = useState(0);
 
   const lastFrameTime = useRef(0);
   const frameCount = useRef(0);
+  const detectCount = useRef(0);
   const fpsInterval = useRef<NodeJS.Timer>();
 
-  // Load COCO-SSD model
-  const loadModel = useCallback(async () => {
-    if (modelRef.current) return;
+  // Load the configured detector (in a detection worker when supported); `reload` swaps a running one
+  const loadModel = useCallback(async (reload = false) => {
+    if (detectorRef.current && !reload) return;
     setModelStatus('loading');
+    const detector = new AsyncDetector();
     try {
-      const tf = await import('@tensorflow/tfjs');
-      await tf.ready();
-      // Set backend
-      if (tf.getBackend() !== 'webgl') {
-        try { await tf.setBackend('webgl'); } catch { /* fallback */ }
-      }
-      const cocoSsd = await import('@tensorflow-models/coco-ssd');
-      modelRef.current = await cocoSsd.load({ base: 'lite_mobilenet_v2' });
+      detector.onWorkerError = (err, recovered) => {
+        if (detectorRef.current !== detector) return;
+        if (recovered) {
+          setDetectorInfo({ label: detector.label, backend: detector.backend, inWorker: detector.inWorker });
+        } else {
+          console.error('Model load error:', err);
+          setModelStatus('error');
+        }
+      };
+      await detector.init(detectorConfig);
+      detectorRef.current?.terminate();
+      detectorRef.current = detector;
+      loadedConfigRef.current = detectorConfig;
+      setDetectorInfo({ label: detector.label, backend: detector.backend, inWorker: detector.inWorker });
       setModelStatus('ready');
     } catch (err) {
       console.error('Model load error:', err);
-      setModelStatus('error');
+      detector.terminate();
+      const running = loadedConfigRef.current;
+      if (!detectorRef.current || !running) {
+        setModelStatus('error');
+        return;
+      }
+      // A failed switch keeps the detector that was working, and the settings show what that is
+      toast({
+        variant: 'destructive',
+        title: 'Detector switch failed',
+        description: `${(err as Error).message || 'The model could not be loaded'}. Keeping the current detector.`,
+      });
+      setDetectorConfig(running);
+      setModelStatus('ready');
+    }
+  }, [detectorConfig]);
+
+  // Switch detector/backend live once one is loaded
+  useEffect(() => {
+    if (detectorRef.current && detectorConfig !== loadedConfigRef.current) loadModel(true);
+  }, [loadModel, detectorConfig]);
+
+  useEffect(() => () => detectorRef.current?.terminate(), []);
+
+  useEffect(() => {
+    trackerRef.current.setClasses(trackedClasses);
+  }, [trackedClasses]);
+
+  // Live tuning: applied to the running tracker and remembered across sessions
+  useEffect(() => {
+    trackerRef.current.setConfig(trackerSettings.config);
+    saveTrackerConfig(trackerSettings);
+  }, [trackerSettings]);
+
+  useEffect(() => {
+    autoFocusRef.current.setPolicy(autoPolicy);
+  }, [autoPolicy]);
+
+  // A new manual focus undoes "clear blur" after a loss
+  useEffect(() => {
+    if (focusAll || selectedIds.size > 0) setBlurCleared(false);
+  }, [focusAll, selectedIds]);
+
+  // Notify on lock changes and apply the loss behaviour
+  const handleLockTransitions = useCallback((transitions: LockTransition[]) => {
+    const monitor = lockMonitorRef.current;
+    for (const { id, from, to } of transitions) {
+      const label = trackLabel(id, monitor.get(id)?.lastSeen.class);
+      if (to === 'searching') {
+        toast({ title: `${label} out of view`, description: 'Searching…' });
+      } else if (to === 'lost') {
+        if (lossBehavior === 'hold') {
+          toast({ title: `${label} lost`, description: 'Holding the last focus region.' });
+        } else {
+          setSelectedIds(prev => {
+            const next = new Set(prev);
+            next.delete(id);
+            return next;
+          });
+          if (lossBehavior === 'auto') {
+            setAutoPolicy(prev => (prev === 'off' ? 'largest' : prev));
+            toast({ title: `${label} lost`, description: 'Switching to auto-focus.' });
+          } else {
+            setBlurCleared(true);
+            toast({ title: `${label} lost`, description: 'Blur cleared.' });
+          }
+        }
+      } else if (from === 'searching' || from === 'lost') {
+        toast({ title: `${label} reacquired` });
+      }
+    }
+  }, [lossBehavior]);
+
+  // Load BodyPix lazily, only once segmentation mode is chosen
+  const loadSegmentationModel = useCallback(async () => {
+    if (segmenterRef.current) return;
+    setSegmenterStatus('loading');
+    try {
+      segmenterRef.current = await loadSegmenter();
+      setSegmenterStatus('ready');
+    } catch (err) {
+      console.error('Segmentation model load error:', err);
+      setSegmenterStatus('error');
     }
   }, []);
 
+  useEffect(() => {
+    if (focusMode === 'segmentation') loadSegmentationModel();
+  }, [focusMode, loadSegmentationModel]);
+
   // Start camera
   const startCamera = useCallback(async () => {
     await loadModel();
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 720 } },
-      });
+      const stream = await openCamera(cameraConfig);
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         videoRef.current.play();
         setInputMode('camera');
       }
+      setActiveCameraId(activeDeviceId(stream));
     } catch (err) {
-      console.error('Camera error:', err);
+      reportCameraError(err);
+      return;
     }
-  }, [loadModel]);
+    // Device labels are only readable once permission has been granted
+    setCameras(await listCameras().catch(() => []));
+  }, [loadModel, cameraConfig]);
+
+  // Keep the device list current as cameras are plugged in or removed
+  useEffect(() => {
+    if (inputMode !== 'camera' || !navigator.mediaDevices) return;
+    const refresh = () => {
+      listCameras().then(setCameras).catch(() => {});
+    };
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [inputMode]);
 
   // Load video file
   const loadVideoFile = useCallback(async (file: File) => {
@@ -76,8 +376,50 @@ const SmartFocusTracker: React.FC = () => {
     }
   }, [loadModel]);
 
+  // Recording of the rendered camera output, with microphone audio when permitted
+  const startRecording = useCallback(async () => {
+    const canvas = canvasRef.current;
+    if (!canvas || recorderRef.current.state !== 'inactive') return;
+    try {
+      micStreamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.warn('Microphone unavailable, recording without audio:', err);
+      micStreamRef.current = null;
+    }
+    recorderRef.current.start(canvas, micStreamRef.current);
+    setRecordingMs(0);
+    setRecordingState('recording');
+  }, []);
+
+  const togglePauseRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder.state === 'recording') recorder.pause();
+    else recorder.resume();
+    setRecordingState(recorder.state);
+  }, []);
+
+  const stopRecording = useCallback(async () => {
+    const blob = await recorderRef.current.stop();
+    micStreamRef.current?.getTracks().forEach(t => t.stop());
+    micStreamRef.current = null;
+    setRecordingState('inactive');
+    if (blob && blob.size > 0) downloadBlob(blob, timestampedFilename('smartfocus-recording', 'webm'));
+  }, []);
+
+  // Recording timer
+  useEffect(() => {
+    if (recordingState === 'inactive') return;
+    const id = setInterval(() => setRecordingMs(recorderRef.current.elapsedMs()), 250);
+    return () => clearInterval(id);
+  }, [recordingState]);
+
   // Stop input
   const stopInput = useCallback(() => {
+    // The export settles on its own once aborted; don't leave its progress up meanwhile
+    exportAbortRef.current?.abort();
+    exportAbortRef.current = null;
+    setExportProgress(null);
+    if (recorderRef.current.state !== 'inactive') stopRecording();
     if (videoRef.current) {
       if (videoRef.current.srcObject) {
         (videoRef.current.srcObject as MediaStream).getTracks().forEach(t => t.stop());
@@ -87,22 +429,79 @@ const SmartFocusTracker: React.FC = () => {
     }
     cancelAnimationFrame(animFrameRef.current);
     trackerRef.current.reset();
+    detectorRef.current?.clearLatest();
+    lastDetectionTimeRef.current = 0;
+    lastRecordedFrameRef.current = 0;
+    focusStateRef.current = createFocusState();
+    trailsRef.current.clear();
+    smootherRef.current.reset();
+    lockMonitorRef.current.reset();
+    setLockStatuses(new Map());
+    setBlurCleared(false);
+    autoFocusRef.current.release();
+    setAutoFocusId(null);
     setInputMode('none');
-    setSelectedPersonId(null);
+    setSelectedIds(new Set());
+    setFocusAll(false);
     setTrackedPersons([]);
+    displayedRef.current = [];
     setIsProcessing(false);
-  }, []);
+  }, [stopRecording]);
+
+  // Hot-switch the running camera; the tracker, selection and recording carry on across the swap
+  const changeCamera = useCallback(async (config: CameraConfig) => {
+    const previous = cameraConfig;
+    setCameraConfig(config);
+    const video = videoRef.current;
+    if (inputMode !== 'camera' || !video) return;
+
+    setSwitchingCamera(true);
+    // Many phones can't open a second camera while one is still running
+    (video.srcObject as MediaStream | null)?.getTracks().forEach(t => t.stop());
+    try {
+      const stream = await openCamera(config);
+      video.srcObject = stream;
+      video.play();
+      setActiveCameraId(activeDeviceId(stream));
+    } catch (err) {
+      reportCameraError(err);
+      // Go back to the camera that was working, or stop if that is gone too
+      try {
+        video.srcObject = await openCamera(previous);
+        video.play();
+        setCameraConfig(previous);
+      } catch {
+        stopInput();
+      }
+    } finally {
+      setSwitchingCamera(false);
+    }
+  }, [cameraConfig, inputMode, stopInput]);
+
+  useEffect(() => {
+    schedulerRef.current.setSettings({ targetFps, powerSaver });
+  }, [targetFps, powerSaver]);
+
+  useEffect(() => {
+    smootherRef.current.setConfig(smoothing);
+  }, [smoothing]);
+
+  useEffect(() => {
+    trackLogRef.current.setFps(sourceFps);
+  }, [sourceFps]);
 
   // Detection + render loop
   useEffect(() => {
     if (inputMode === 'none' || modelStatus !== 'ready') return;
 
     let running = true;
-    let detectEveryN = 3; // detect every N frames for performance
-    let frameIdx = 0;
+    const scheduler = schedulerRef.current;
+    let lastRender = 0;
     let lastDetections: Detection[] = [];
+    let detectionTime = 0; // capture time of `lastDetections`, ms
+    let segmenting = false;
 
-    const loop = async () => {
+    const loop = () => {
       if (!running) return;
       const video = videoRef.current;
       const canvas = canvasRef.current;
@@ -111,45 +510,115 @@ const SmartFocusTracker: React.FC = () => {
         return;
       }
 
+      // Cap the render rate at the target FPS
+      const now = performance.now();
+      if (now - lastRender < scheduler.frameIntervalMs() - 1) {
+        animFrameRef.current = requestAnimationFrame(loop);
+        return;
+      }
+      lastRender = now;
+
       canvas.width = canvas.clientWidth * (window.devicePixelRatio > 1 ? 1.5 : 1);
       canvas.height = canvas.clientHeight * (window.devicePixelRatio > 1 ? 1.5 : 1);
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
 
-      frameIdx++;
       frameCount.current++;
 
-      // Run detection periodically
-      if (frameIdx % detectEveryN === 0 && modelRef.current) {
-        setIsProcessing(true);
-        try {
-          const predictions = await modelRef.current.detect(video, 10, 0.3);
-          lastDetections = predictions
-            .filter((p: any) => p.class === 'person')
-            .map((p: any, i: number) => ({
-              id: i,
-              bbox: p.bbox as [number, number, number, number],
-              score: p.score,
-              class: p.class,
-            }));
-        } catch {
-          // ignore detection errors
+      // Pre-recorded detections replace the model, one set per media frame
+      let fresh = false;
+      const recorded = recordedRef.current;
+      if (recorded) {
+        const frame = recorded.frameAt(video.currentTime);
+        if (frame !== lastRecordedFrameRef.current) {
+          lastRecordedFrameRef.current = frame;
+          lastDetections = recorded.detectionsAt(video.currentTime);
+          detectionTime = video.currentTime * 1000;
+          fresh = true;
+          detectCount.current++;
+        }
+      }
+
+      // Kick off detection when the scheduler says so; results arrive asynchronously and rendering never waits
+      const detector = detectorRef.current;
+      if (!recorded && detector && !detector.busy && scheduler.shouldDetect(now)) {
+        detector.submit(video, now);
+        scheduler.markSubmitted(now);
+        detectCount.current++;
+
+        const segmenter = segmenterRef.current;
+        if (focusMode === 'segmentation' && segmenter && !segmenting && (focusAll || selectedIds.size > 0)) {
+          segmenting = true;
+          segmentPersons(segmenter, video)
+            .then(seg => { segmentationRef.current = seg; })
+            .catch(() => { segmentationRef.current = null; })
+            .finally(() => { segmenting = false; });
         }
-        setIsProcessing(false);
       }
+      setIsProcessing(!!detector?.busy);
 
-      // Update tracker
-      const persons = trackerRef.current.update(lastDetections);
-      setTrackedPersons([...persons]);
+      // Consume the newest detection result by capture time; a replayed file stands in for the model entirely
+      const latest = recorded ? null : detector?.getLatest();
+      if (latest && latest.timestamp > lastDetectionTimeRef.current) {
+        lastDetectionTimeRef.current = latest.timestamp;
+        lastDetections = latest.detections;
+        detectionTime = latest.timestamp;
+        fresh = true;
+        scheduler.recordLatency(latest.latencyMs);
+      }
+
+      // Update the tracker once per detection result, so hits and misses count real observations
+      const tracker = trackerRef.current;
+      const persons = fresh ? tracker.update(lastDetections, detectionTime) : tracker.getTracked();
+      if (fresh) {
+        trailsRef.current.update(persons);
+        trackLogRef.current.record(persons, video.currentTime * 1000);
+        smootherRef.current.update(persons, now);
+      }
+      // What is drawn (and clicked) is the smoothed box, moving at render rate between updates
+      const display = smootherRef.current.apply(persons, now);
+      displayedRef.current = display;
+      setTrackedPersons(display);
+
+      // "Focus all" keeps every tracked person sharp, blurring only the background;
+      // with nothing selected the auto-focus policy picks a subject, and any manual selection overrides it
+      const manual = focusAll || selectedIds.size > 0;
+      if (manual) autoFocusRef.current.release();
+      const autoId = manual ? null : autoFocusRef.current.update(persons, video.videoWidth, video.videoHeight);
+      setAutoFocusId(autoId);
+      const focusIds: ReadonlySet<number> = focusAll
+        ? new Set(persons.map(p => p.id))
+        : autoId !== null ? new Set([autoId]) : selectedIds;
+      scheduler.update(persons, focusIds);
 
-      // Check if selected person still exists
-      if (selectedPersonId !== null && !persons.find(p => p.id === selectedPersonId)) {
-        // Keep selected for a few frames in case of temporary occlusion
-        // The tracker handles this internally with maxAge
+      // Follow selected subjects through coasting, searching and loss
+      const monitor = lockMonitorRef.current;
+      const transitions = monitor.update(display, focusAll ? new Set() : selectedIds, now);
+      if (transitions.length > 0) {
+        setLockStatuses(monitor.statuses());
+        handleLockTransitions(transitions);
       }
+      // Subjects whose track is gone keep their last region while searching (and when lost, if holding)
+      const renderPersons = [...display, ...monitor.missing()];
+
+      const masks = focusMode === 'segmentation' && segmentationRef.current
+        ? buildMasks(segmentationRef.current, renderPersons, focusIds, maskCanvasesRef.current, video)
+        : new Map<number, HTMLCanvasElement>();
 
       // Render
-      renderWithSelectiveBlur(ctx, video, canvas, persons, selectedPersonId, blurAmount);
+      renderWithSelectiveBlur(
+        ctx, video, canvas, renderPersons, focusIds, blurCleared ? 0 : blurAmount, masks,
+        focusStateRef.current,
+        { ...DEFAULT_FOCUS_OPTIONS, feather, transitionMs, blurMode }
+      );
+
+      // Annotations on top, locked subjects in their badge colour
+      const lockedColors = new Map<number, string>(
+        focusAll || autoId !== null
+          ? [...focusIds].map(id => [id, themeColor(SUBJECT_COLORS[0])])
+          : [...selectedIds].map((id, i) => [id, themeColor(SUBJECT_COLORS[i % SUBJECT_COLORS.length])])
+      );
+      drawTrackingOverlay(ctx, video, canvas, display, lockedColors, trailsRef.current, overlay);
 
       animFrameRef.current = requestAnimationFrame(loop);
     };
@@ -159,7 +628,11 @@ const SmartFocusTracker: React.FC = () => {
     // FPS counter
     fpsInterval.current = setInterval(() => {
       setFps(frameCount.current);
+      setDetectRate(detectCount.current);
+      setDetectLatency(Math.round(scheduler.getLatencyMs()));
+      setLoggedFrames(trackLogRef.current.frameCount);
       frameCount.current = 0;
+      detectCount.current = 0;
     }, 1000);
 
     return () => {
@@ -167,35 +640,283 @@ const SmartFocusTracker: React.FC = () => {
       cancelAnimationFrame(animFrameRef.current);
       clearInterval(fpsInterval.current as any);
     };
-  }, [inputMode, modelStatus, selectedPersonId, blurAmount]);
+  }, [inputMode, modelStatus, selectedIds, focusAll, blurAmount, focusMode, feather, transitionMs, blurMode, overlay, blurCleared, handleLockTransitions]);
 
-  // Handle click on canvas to select person
-  const handleCanvasClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+  // Export the uploaded video frame-by-frame with the current focus settings
+  const startExport = useCallback(async () => {
+    const video = videoRef.current;
+    const detector = detectorRef.current;
+    if (!video || !detector || exportAbortRef.current) return;
+
+    const canvas = document.createElement('canvas');
+    // Even dimensions keep video encoders happy
+    canvas.width = video.videoWidth & ~1;
+    canvas.height = video.videoHeight & ~1;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setExportProgress(0);
+
+    // Fresh tracker from the first frame; the current selection is carried over by appearance
+    const tracker = new PersonTracker(trackerRef.current.getConfig(), trackerRef.current.getClasses());
+    const targets = trackerRef.current.getTracked()
+      .filter(p => selectedIds.has(p.id) && p.embedding)
+      .map(p => p.embedding);
+    const exportIds = new Set<number>();
+    // Unattended export of an unselected video follows the auto-focus policy
+    const autoFocus = selectedIds.size === 0 && !focusAll ? new AutoFocus(autoPolicy) : null;
+    const focusState = createFocusState();
+    const smoother = new BoxSmoother(smoothing);
+    const maskCanvases = new Map<number, HTMLCanvasElement>();
+    const options = { ...DEFAULT_FOCUS_OPTIONS, feather, transitionMs, blurMode };
+
+    try {
+      const blob = await exportVideo(video, canvas, {
+        fps: EXPORT_FPS,
+        signal: controller.signal,
+        onProgress: fraction => {
+          if (!controller.signal.aborted) setExportProgress(fraction);
+        },
+        processFrame: async (_index, time) => {
+          const recorded = recordedRef.current;
+          const detections = recorded ? recorded.detectionsAt(time) : await detector.detect(video);
+          const tracked = tracker.update(detections, time * 1000);
+          smoother.update(tracked, time * 1000);
+          const persons = smoother.apply(tracked, time * 1000);
+
+          for (const p of persons) {
+            if (exportIds.has(p.id) || !p.embedding) continue;
+            const ti = targets.findIndex(t => embeddingSimilarity(t, p.embedding) > EXPORT_MATCH_THRESHOLD);
+            if (ti >= 0) {
+              exportIds.add(p.id);
+              targets.splice(ti, 1);
+            }
+          }
+          const autoId = autoFocus?.update(persons, video.videoWidth, video.videoHeight) ?? null;
+          const focusIds: ReadonlySet<number> = focusAll
+            ? new Set(persons.map(p => p.id))
+            : autoId !== null ? new Set([autoId]) : exportIds;
+
+          let masks = new Map<number, HTMLCanvasElement>();
+          if (focusMode === 'segmentation' && segmenterRef.current && focusIds.size > 0) {
+            const seg = await segmentPersons(segmenterRef.current, video);
+            if (seg) masks = buildMasks(seg, persons, focusIds, maskCanvases, video);
+          }
+
+          renderWithSelectiveBlur(
+            ctx, video, canvas, persons, focusIds, blurAmount, masks,
+            focusState, options, time * 1000
+          );
+        },
+      });
+      downloadBlob(blob, timestampedFilename('smartfocus-export', 'webm'));
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') console.error('Export error:', err);
+    } finally {
+      // A stop may already have reset this, and a new export taken its place
+      if (exportAbortRef.current === controller) {
+        exportAbortRef.current = null;
+        setExportProgress(null);
+      }
+    }
+  }, [selectedIds, focusAll, focusMode, blurAmount, feather, transitionMs, blurMode, smoothing, autoPolicy]);
+
+  const toggleLogging = useCallback(() => {
+    const logger = trackLogRef.current;
+    if (logger.isRecording) logger.stop();
+    else logger.start();
+    setLogging(logger.isRecording);
+    setLoggedFrames(logger.frameCount);
+  }, []);
+
+  const downloadTrackLog = useCallback((format: 'csv' | 'json') => {
+    const frames = trackLogRef.current.getFrames();
+    const blob = format === 'csv'
+      ? new Blob([toMotCsv(frames)], { type: 'text/csv' })
+      : new Blob([toTrackLogJson(frames)], { type: 'application/json' });
+    downloadBlob(blob, timestampedFilename('smartfocus-tracks', format === 'csv' ? 'txt' : 'json'));
+  }, []);
+
+  // Drive the tracker from a MOT detections file (or a previous JSON log) instead of the model
+  const loadDetectionSource = useCallback(async (file: File) => {
+    try {
+      const frames = parseDetections(await file.text());
+      recordedRef.current = new RecordedDetections(frames, sourceFps);
+      lastRecordedFrameRef.current = 0;
+      // A model result still in flight must not mix into the replay
+      detectorRef.current?.clearLatest();
+      trackerRef.current.reset();
+      smootherRef.current.reset();
+      setDetectionSource({ name: file.name, frames: frames.size });
+      setSourceError(null);
+    } catch (err) {
+      console.error('Detections file error:', err);
+      setSourceError((err as Error).message);
+    }
+  }, [sourceFps]);
+
+  const clearDetectionSource = useCallback(() => {
+    recordedRef.current = null;
+    lastRecordedFrameRef.current = 0;
+    detectorRef.current?.clearLatest();
+    trackerRef.current.reset();
+    smootherRef.current.reset();
+    setDetectionSource(null);
+  }, []);
+
+  const changeSourceFps = useCallback((fps: number) => {
+    setSourceFps(fps);
+    const recorded = recordedRef.current;
+    if (recorded) recordedRef.current = recorded.withFps(fps);
+  }, []);
+
+  // Pinch zoom follows the (first) locked subject and resets when there is none
+  const zoomSubjectId = focusAll ? null : selectedIds.size > 0 ? [...selectedIds][0] : autoFocusId;
+  useEffect(() => {
+    if (zoomSubjectId === null) setZoom(1);
+  }, [zoomSubjectId]);
+
+  // Tracks under a viewport point, best first; `tolerance` (CSS px) also accepts the nearest box when the point misses
+  const candidatesAtClientPoint = useCallback((clientX: number, clientY: number, tolerance = 0): HitCandidate[] => {
     const canvas = canvasRef.current;
     const video = videoRef.current;
-    if (!canvas || !video) return;
+    if (!canvas || !video) return [];
 
     const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-
-    const person = findPersonAtPoint(
-      trackerRef.current.getTracked(),
-      x * (canvas.width / rect.width),
-      y * (canvas.height / rect.height),
-      canvas.width,
-      canvas.height,
-      video.videoWidth,
-      video.videoHeight
+    const x = (clientX - rect.left) * (canvas.width / rect.width);
+    const y = (clientY - rect.top) * (canvas.height / rect.height);
+    const persons = displayedRef.current;
+    const hits = rankPersonsAtPoint(persons, x, y, canvas.width, canvas.height, video.videoWidth, video.videoHeight);
+    if (hits.length > 0 || tolerance <= 0) return hits;
+    const nearest = findNearestPerson(
+      persons, x, y, canvas.width, canvas.height, video.videoWidth, video.videoHeight, tolerance * (canvas.width / rect.width)
     );
+    return nearest ? [{ person: nearest, rank: 1 }] : [];
+  }, []);
+
+  // Focus track `id` alone (toggling it off if it already is), or add/remove it when `additive`
+  const selectTrack = useCallback((id: number | null, additive: boolean) => {
+    setFocusAll(false);
+    setSelectedIds(prev => {
+      if (id === null) return additive ? prev : new Set();
+      if (additive) {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+      }
+      return prev.size === 1 && prev.has(id) ? new Set() : new Set([id]);
+    });
+  }, []);
 
-    if (person) {
-      setSelectedPersonId(prev => prev === person.id ? null : person.id);
-    } else {
-      setSelectedPersonId(null);
+  // Select the subject at a point; when overlapping boxes make that ambiguous, let the user pick
+  const selectAt = useCallback((clientX: number, clientY: number, additive: boolean, tolerance = 0) => {
+    const candidates = candidatesAtClientPoint(clientX, clientY, tolerance);
+    const video = videoRef.current;
+    const viewport = viewportRef.current;
+    if (isAmbiguousHit(candidates) && video && viewport) {
+      const rect = viewport.getBoundingClientRect();
+      setPicker({
+        position: { x: clientX - rect.left, y: clientY - rect.top },
+        candidates: candidates.slice(0, MAX_PICKER_CANDIDATES).map(({ person }) => ({
+          id: person.id,
+          label: trackLabel(person.id, person.class),
+          thumbnail: trackThumbnail(video, person.bbox),
+        })),
+        additive,
+      });
+      return;
     }
+    selectTrack(candidates[0]?.person.id ?? null, additive);
+  }, [candidatesAtClientPoint, selectTrack]);
+
+  const pickCandidate = useCallback((id: number) => {
+    if (!picker) return;
+    selectTrack(id, picker.additive);
+    setPicker(null);
+  }, [picker, selectTrack]);
+
+  // Handle click on canvas to select person; shift/ctrl-click adds or removes
+  const handleCanvasClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    // Touch input is handled by the gesture recognizer (the browser still emits a click after a tap)
+    if (lastPointerTypeRef.current === 'touch') return;
+    selectAt(e.clientX, e.clientY, e.shiftKey || e.ctrlKey || e.metaKey);
+  }, [selectAt]);
+
+  // Swipe: move focus to the next subject to the left/right
+  const cycleFocus = useCallback((step: 1 | -1) => {
+    const persons = [...displayedRef.current].sort(
+      (a, b) => a.bbox[0] + a.bbox[2] / 2 - (b.bbox[0] + b.bbox[2] / 2)
+    );
+    if (persons.length === 0) return;
+    setFocusAll(false);
+    setSelectedIds(prev => {
+      const current = prev.size === 1 ? persons.findIndex(p => prev.has(p.id)) : -1;
+      const index = current < 0
+        ? (step > 0 ? 0 : persons.length - 1)
+        : (current + step + persons.length) % persons.length;
+      return new Set([persons[index].id]);
+    });
   }, []);
 
+  const handleGesture = (gesture: Gesture) => {
+    switch (gesture.type) {
+      case 'tap':
+      case 'longpress': {
+        if (gesture.type === 'longpress') navigator.vibrate?.(15);
+        // Long-press builds a multi-selection, like shift-click
+        selectAt(gesture.x, gesture.y, gesture.type === 'longpress', isMobile ? TAP_TOLERANCE_MOBILE : TAP_TOLERANCE);
+        break;
+      }
+      case 'swipe':
+        if (gesture.direction === 'left') cycleFocus(1);
+        else if (gesture.direction === 'right') cycleFocus(-1);
+        break;
+      case 'pinch':
+        if (zoomSubjectId !== null) setZoom(z => Math.min(MAX_ZOOM, Math.max(1, z * gesture.scale)));
+        break;
+    }
+  };
+  gestureHandlerRef.current = handleGesture;
+
+  useEffect(() => {
+    const recognizer = new GestureRecognizer(g => gestureHandlerRef.current(g));
+    recognizerRef.current = recognizer;
+    return () => recognizer.dispose();
+  }, []);
+
+  const handlePointer = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    lastPointerTypeRef.current = e.pointerType;
+    const recognizer = recognizerRef.current;
+    if (e.pointerType !== 'touch' || !recognizer) return;
+    switch (e.type) {
+      case 'pointerdown':
+        recognizer.pointerDown(e.pointerId, e.clientX, e.clientY, e.timeStamp);
+        break;
+      case 'pointermove':
+        recognizer.pointerMove(e.pointerId, e.clientX, e.clientY);
+        break;
+      case 'pointerup':
+        recognizer.pointerUp(e.pointerId, e.clientX, e.clientY, e.timeStamp);
+        break;
+      default:
+        recognizer.pointerCancel(e.pointerId);
+    }
+  }, []);
+
+  const hasFocus = focusAll || selectedIds.size > 0;
+
+  const zoomSubject = zoom > 1 ? trackedPersons.find(p => p.id === zoomSubjectId) : undefined;
+  const videoSize = videoRef.current ? [videoRef.current.videoWidth, videoRef.current.videoHeight] : [0, 0];
+  const zoomStyle: React.CSSProperties | undefined = zoomSubject && videoSize[0] > 0 && videoSize[1] > 0
+    ? {
+        transform: `scale(${zoom})`,
+        transformOrigin: `${((zoomSubject.bbox[0] + zoomSubject.bbox[2] / 2) / videoSize[0]) * 100}% ${((zoomSubject.bbox[1] + zoomSubject.bbox[3] / 2) / videoSize[1]) * 100}%`,
+      }
+    : undefined;
+
   return (
     <div className="flex flex-col h-full gap-4">
       {/* Control Bar */}
@@ -238,15 +959,101 @@ const SmartFocusTracker: React.FC = () => {
             </button>
           )}
 
-          {selectedPersonId !== null && (
+          {inputMode === 'camera' && recordingState === 'inactive' && (
             <button
-              onClick={() => setSelectedPersonId(null)}
+              onClick={startRecording}
+              className="flex items-center gap-2 px-3 py-2 rounded-md bg-muted text-muted-foreground font-mono text-xs hover:text-foreground transition-colors border border-border"
+            >
+              <Circle className="w-3 h-3 fill-destructive text-destructive" />
+              Record
+            </button>
+          )}
+          {recordingState !== 'inactive' && (
+            <div className="flex items-center gap-2 font-mono text-xs">
+              <span className="flex items-center gap-1.5 px-2 py-1 rounded bg-destructive/20 border border-destructive/30 text-destructive">
+                <span className={`w-2 h-2 rounded-full bg-destructive ${recordingState === 'recording' ? 'animate-pulse' : ''}`} />
+                {recordingState === 'paused' ? 'PAUSED' : 'REC'} {formatDuration(recordingMs)}
+              </span>
+              <button
+                onClick={togglePauseRecording}
+                className="flex items-center gap-1 px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground transition-colors"
+              >
+                {recordingState === 'paused' ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+                {recordingState === 'paused' ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                onClick={stopRecording}
+                className="flex items-center gap-1 px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <Square className="w-3 h-3" />
+                Save
+              </button>
+            </div>
+          )}
+
+          {inputMode === 'file' && exportProgress === null && (
+            <button
+              onClick={startExport}
+              disabled={modelStatus !== 'ready'}
+              className="flex items-center gap-2 px-3 py-2 rounded-md bg-muted text-muted-foreground font-mono text-xs hover:text-foreground transition-colors border border-border disabled:opacity-50"
+            >
+              <Download className="w-3 h-3" />
+              Export
+            </button>
+          )}
+          {exportProgress !== null && (
+            <div className="flex items-center gap-2 font-mono text-xs text-muted-foreground">
+              <span>Exporting</span>
+              <Progress value={exportProgress * 100} className="w-32 h-2" />
+              <span>{Math.round(exportProgress * 100)}%</span>
+              <button
+                onClick={() => exportAbortRef.current?.abort()}
+                className="flex items-center gap-1 px-2 py-1 rounded border border-border hover:text-foreground transition-colors"
+              >
+                <X className="w-3 h-3" />
+                Cancel
+              </button>
+            </div>
+          )}
+
+          {inputMode !== 'none' && (
+            <ToggleButton
+              active={focusAll}
+              onClick={() => setFocusAll(prev => !prev)}
+              className={cn('flex items-center gap-2 px-3 py-2 rounded-md font-mono text-xs', !focusAll && 'bg-muted text-muted-foreground')}
+            >
+              <Users className="w-3 h-3" />
+              Focus All
+            </ToggleButton>
+          )}
+
+          {hasFocus && (
+            <button
+              onClick={() => {
+                setSelectedIds(new Set());
+                setFocusAll(false);
+              }}
               className="flex items-center gap-2 px-3 py-2 rounded-md bg-muted text-muted-foreground font-mono text-xs hover:text-foreground transition-colors border border-border"
             >
               <X className="w-3 h-3" />
               Clear Focus
             </button>
           )}
+
+          {inputMode !== 'none' && (
+            <div className="flex items-center gap-1 ml-2 font-mono text-xs text-muted-foreground">
+              <Layers className="w-3 h-3 mr-1" />
+              {(Object.keys(OVERLAY_LABELS) as (keyof OverlayOptions)[]).map(key => (
+                <ToggleButton
+                  key={key}
+                  active={overlay[key]}
+                  onClick={() => setOverlay(prev => ({ ...prev, [key]: !prev[key] }))}
+                >
+                  {OVERLAY_LABELS[key]}
+                </ToggleButton>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Status indicators */}
@@ -277,9 +1084,14 @@ const SmartFocusTracker: React.FC = () => {
               </span>
               <span className="flex items-center gap-1.5">
                 <Focus className="w-3 h-3" />
-                {selectedPersonId !== null ? `Tracking #${selectedPersonId}` : 'Click to focus'}
+                {focusAll
+                  ? 'Tracking all'
+                  : selectedIds.size > 0
+                    ? `Tracking ${[...selectedIds].map(id => `#${id}`).join(', ')}`
+                    : 'Click to focus'}
               </span>
               <span>{fps} FPS</span>
+              <span title={`Inference latency ${detectLatency}ms`}>{detectRate} det/s</span>
             </>
           )}
         </div>
@@ -287,8 +1099,33 @@ const SmartFocusTracker: React.FC = () => {
 
       {/* Blur control */}
       {inputMode !== 'none' && (
-        <div className="flex items-center gap-3 font-mono text-xs text-muted-foreground">
-          <span>Blur:</span>
+        <div className="flex items-center gap-3 flex-wrap font-mono text-xs text-muted-foreground">
+          <span>Track:</span>
+          <ClassFilter classes={trackedClasses} onChange={setTrackedClasses} />
+
+          <span className="ml-4">Auto:</span>
+          {AUTO_FOCUS_POLICIES.map(({ id, label }) => (
+            <ToggleButton
+              key={id}
+              active={autoPolicy === id}
+              onClick={() => setAutoPolicy(id)}
+            >
+              {label}
+            </ToggleButton>
+          ))}
+
+          <span className="ml-4">On loss:</span>
+          {LOSS_BEHAVIORS.map(({ id, label }) => (
+            <ToggleButton
+              key={id}
+              active={lossBehavior === id}
+              onClick={() => setLossBehavior(id)}
+            >
+              {label}
+            </ToggleButton>
+          ))}
+
+          <span className="ml-4">Blur:</span>
           <input
             type="range"
             min={5}
@@ -298,11 +1135,151 @@ const SmartFocusTracker: React.FC = () => {
             className="w-32 accent-primary"
           />
           <span>{blurAmount}px</span>
+          {(['single', 'depth'] as BlurMode[]).map(mode => (
+            <ToggleButton
+              key={mode}
+              active={blurMode === mode}
+              onClick={() => setBlurMode(mode)}
+            >
+              {mode === 'single' ? 'Flat' : 'Depth'}
+            </ToggleButton>
+          ))}
+
+          <span className="ml-4">Feather:</span>
+          <input
+            type="range"
+            min={0}
+            max={40}
+            value={feather}
+            onChange={e => setFeather(Number(e.target.value))}
+            className="w-24 accent-primary"
+          />
+          <span>{feather}px</span>
+
+          <span className="ml-4">Transition:</span>
+          <input
+            type="range"
+            min={0}
+            max={1500}
+            step={50}
+            value={transitionMs}
+            onChange={e => setTransitionMs(Number(e.target.value))}
+            className="w-24 accent-primary"
+          />
+          <span>{transitionMs}ms</span>
+
+          <span className="ml-4">Smoothing:</span>
+          {SMOOTHING_METHODS.map(m => (
+            <ToggleButton
+              key={m.id}
+              active={smoothing.method === m.id}
+              onClick={() => setSmoothing(prev => ({ ...prev, method: m.id }))}
+            >
+              {m.label}
+            </ToggleButton>
+          ))}
+          <ToggleButton
+            active={smoothing.interpolate}
+            onClick={() => setSmoothing(prev => ({ ...prev, interpolate: !prev.interpolate }))}
+            title="Move boxes at render rate between detections"
+          >
+            Interpolate
+          </ToggleButton>
+
+          <span className="ml-4">FPS:</span>
+          {TARGET_FPS_OPTIONS.map(option => (
+            <ToggleButton
+              key={option}
+              active={targetFps === option}
+              onClick={() => setTargetFps(option)}
+            >
+              {option}
+            </ToggleButton>
+          ))}
+          <ToggleButton
+            active={powerSaver}
+            onClick={() => setPowerSaver(prev => !prev)}
+            className="flex items-center gap-1"
+          >
+            <BatteryLow className="w-3 h-3" />
+            Power saver
+          </ToggleButton>
+
+          <span className="ml-4">Focus:</span>
+          {(['bbox', 'segmentation'] as FocusMode[]).map(mode => (
+            <ToggleButton
+              key={mode}
+              active={focusMode === mode}
+              onClick={() => setFocusMode(mode)}
+            >
+              {mode === 'bbox' ? 'Box' : 'Mask'}
+            </ToggleButton>
+          ))}
+          {focusMode === 'segmentation' && segmenterStatus === 'loading' && (
+            <span className="flex items-center gap-1.5 text-warning">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Loading mask model...
+            </span>
+          )}
+          {focusMode === 'segmentation' && segmenterStatus === 'error' && (
+            <span className="flex items-center gap-1.5 text-destructive">
+              <AlertCircle className="w-3 h-3" />
+              Mask unavailable — using box
+            </span>
+          )}
         </div>
       )}
 
+      {/* Camera selection */}
+      {inputMode === 'camera' && (
+        <CameraSettings
+          config={cameraConfig}
+          onChange={changeCamera}
+          devices={cameras}
+          activeDeviceId={activeCameraId}
+          showFacingToggle={isMobile}
+          switching={switchingCamera}
+        />
+      )}
+
+      {/* Tracker tuning */}
+      {inputMode !== 'none' && (
+        <TrackerTuningPanel
+          config={trackerSettings.config}
+          preset={trackerSettings.preset}
+          onChange={(config, preset) => setTrackerSettings({ config, preset })}
+        />
+      )}
+
+      {/* Detector settings */}
+      {inputMode !== 'none' && (
+        <DetectorSettings
+          config={detectorConfig}
+          onChange={setDetectorConfig}
+          info={detectorInfo}
+          latencyMs={detectLatency}
+          loading={modelStatus === 'loading'}
+        />
+      )}
+
+      {/* Track logs and recorded detections */}
+      {inputMode !== 'none' && (
+        <TrackLogPanel
+          logging={logging}
+          loggedFrames={loggedFrames}
+          onToggleLogging={toggleLogging}
+          onDownload={downloadTrackLog}
+          source={detectionSource}
+          sourceFps={sourceFps}
+          onSourceFpsChange={changeSourceFps}
+          onLoadSource={loadDetectionSource}
+          onClearSource={clearDetectionSource}
+          error={sourceError}
+        />
+      )}
+
       {/* Video / Canvas area */}
-      <div className="relative flex-1 rounded-lg overflow-hidden border border-border bg-secondary/50">
+      <div ref={viewportRef} className="relative flex-1 rounded-lg overflow-hidden border border-border bg-secondary/50">
         <video
           ref={videoRef}
           className="absolute inset-0 w-full h-full object-contain opacity-0 pointer-events-none"
@@ -311,10 +1288,32 @@ const SmartFocusTracker: React.FC = () => {
         />
         <canvas
           ref={canvasRef}
-          className="absolute inset-0 w-full h-full cursor-crosshair"
+          className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+          style={zoomStyle}
           onClick={handleCanvasClick}
+          onPointerDown={handlePointer}
+          onPointerMove={handlePointer}
+          onPointerUp={handlePointer}
+          onPointerCancel={handlePointer}
+        />
+
+        <CandidatePicker
+          position={picker?.position ?? null}
+          candidates={picker?.candidates ?? []}
+          onPick={pickCandidate}
+          onClose={() => setPicker(null)}
         />
 
+        {zoomStyle && (
+          <button
+            onClick={() => setZoom(1)}
+            className="absolute bottom-3 right-3 flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-background/60 border border-border backdrop-blur-sm font-mono text-xs text-foreground"
+          >
+            <ZoomOut className="w-3 h-3" />
+            {zoom.toFixed(1)}×
+          </button>
+        )}
+
         {/* Scanline overlay */}
         {inputMode !== 'none' && (
           <div className="absolute inset-0 scanline pointer-events-none" />
@@ -337,21 +1336,47 @@ const SmartFocusTracker: React.FC = () => {
         )}
 
         {/* Tracking indicator overlay */}
-        {selectedPersonId !== null && (
+        {focusAll && (
+          <div className="absolute top-3 left-3 flex items-center gap-2 px-3 py-1.5 rounded-full bg-primary/20 border border-primary/30 backdrop-blur-sm">
+            <span className="w-2 h-2 rounded-full bg-primary animate-pulse-glow" />
+            <span className="font-mono text-xs text-primary text-glow">
+              LOCKED — All {trackedClasses.length === 1 && trackedClasses[0] === 'person' ? 'people' : 'subjects'}
+            </span>
+          </div>
+        )}
+        {!focusAll && selectedIds.size === 0 && autoFocusId !== null && (
           <div className="absolute top-3 left-3 flex items-center gap-2 px-3 py-1.5 rounded-full bg-primary/20 border border-primary/30 backdrop-blur-sm">
             <span className="w-2 h-2 rounded-full bg-primary animate-pulse-glow" />
             <span className="font-mono text-xs text-primary text-glow">
-              LOCKED — Person #{selectedPersonId}
+              AUTO — {trackLabel(autoFocusId, trackedPersons.find(p => p.id === autoFocusId)?.class)}
             </span>
           </div>
         )}
+        {!focusAll && selectedIds.size > 0 && (
+          <div className="absolute top-3 left-3 flex flex-col items-start gap-1.5">
+            {[...selectedIds].map((id, i) => (
+              <div
+                key={id}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-full border backdrop-blur-sm"
+                style={{ color: subjectColor(i), borderColor: subjectColor(i), backgroundColor: 'hsl(var(--background) / 0.5)' }}
+              >
+                <span className="w-2 h-2 rounded-full animate-pulse-glow" style={{ backgroundColor: subjectColor(i) }} />
+                <span className="font-mono text-xs text-glow">
+                  {LOCK_LABELS[lockStatuses.get(id)?.state ?? 'locked']} — {trackLabel(id, lockStatuses.get(id)?.class)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Instructions */}
-      {inputMode !== 'none' && trackedPersons.length > 0 && selectedPersonId === null && (
+      {inputMode !== 'none' && trackedPersons.length > 0 && !hasFocus && (
         <div className="text-center py-2 px-4 rounded-md bg-primary/5 border border-primary/20">
           <p className="font-mono text-xs text-primary">
-            ▸ Click on a detected person to lock focus and blur the background
+            {isMobile
+              ? '▸ Tap a subject to lock focus — long-press to add more, swipe to switch, pinch to zoom'
+              : '▸ Click on a detected subject to lock focus and blur the background — shift/ctrl-click to add more'}
           </p>
         </div>
       )}
@@ -0,0 +1,21 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface ToggleButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
+  active: boolean;
+}
+
+// Small bordered on/off or one-of-many option button, highlighted while active
+const ToggleButton: React.FC<ToggleButtonProps> = ({ active, className, ...props }) => (
+  <button
+    aria-pressed={active}
+    className={cn(
+      'px-2 py-1 rounded border transition-colors',
+      active ? 'bg-primary/20 border-primary/30 text-primary' : 'border-border hover:text-foreground',
+      className
+    )}
+    {...props}
+  />
+);
+
+export default ToggleButton;
@@ -0,0 +1,105 @@
+import React, { useRef } from 'react';
+import { FileText, FileUp, X } from 'lucide-react';
+
+export interface DetectionSourceInfo {
+  name: string;
+  frames: number;
+}
+
+interface TrackLogPanelProps {
+  logging: boolean;
+  loggedFrames: number;
+  onToggleLogging: () => void;
+  onDownload: (format: 'csv' | 'json') => void;
+  source: DetectionSourceInfo | null;
+  sourceFps: number;
+  onSourceFpsChange: (fps: number) => void;
+  onLoadSource: (file: File) => void;
+  onClearSource: () => void;
+  error: string | null;
+}
+
+const buttonClassName = 'px-2 py-1 rounded border border-border hover:text-foreground transition-colors disabled:opacity-50';
+
+const TrackLogPanel: React.FC<TrackLogPanelProps> = ({
+  logging,
+  loggedFrames,
+  onToggleLogging,
+  onDownload,
+  source,
+  sourceFps,
+  onSourceFpsChange,
+  onLoadSource,
+  onClearSource,
+  error,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="flex items-center gap-3 flex-wrap font-mono text-xs text-muted-foreground">
+      <span className="flex items-center gap-1.5">
+        <FileText className="w-3 h-3" />
+        Track log:
+      </span>
+      <button
+        onClick={onToggleLogging}
+        className={`px-2 py-1 rounded border transition-colors ${
+          logging ? 'bg-destructive/20 border-destructive/30 text-destructive' : 'border-border hover:text-foreground'
+        }`}
+      >
+        {logging ? 'Stop log' : 'Start log'}
+      </button>
+      <span>{loggedFrames} frames</span>
+      <button onClick={() => onDownload('csv')} disabled={loggedFrames === 0} className={buttonClassName}>
+        MOT CSV
+      </button>
+      <button onClick={() => onDownload('json')} disabled={loggedFrames === 0} className={buttonClassName}>
+        JSON
+      </button>
+
+      <span className="ml-4">Detections:</span>
+      {source ? (
+        <>
+          <span className="text-foreground/80" title="Detections come from this file instead of the model">
+            {source.name} ({source.frames} frames)
+          </span>
+          <label className="flex items-center gap-1">
+            @
+            <input
+              type="number"
+              min={1}
+              max={120}
+              value={sourceFps}
+              onChange={e => onSourceFpsChange(Math.max(1, Number(e.target.value) || 1))}
+              className="w-12 px-1 py-0.5 rounded border border-border bg-secondary text-secondary-foreground"
+            />
+            fps
+          </label>
+          <button onClick={onClearSource} className={`flex items-center gap-1 ${buttonClassName}`}>
+            <X className="w-3 h-3" />
+            Use model
+          </button>
+        </>
+      ) : (
+        <button onClick={() => fileInputRef.current?.click()} className={`flex items-center gap-1 ${buttonClassName}`}>
+          <FileUp className="w-3 h-3" />
+          Load MOT file
+        </button>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".txt,.csv,.json,text/plain,text/csv,application/json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onLoadSource(file);
+          e.target.value = '';
+        }}
+      />
+      {error && <span className="text-destructive">{error}</span>}
+    </div>
+  );
+};
+
+export default TrackLogPanel;
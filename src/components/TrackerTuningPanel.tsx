@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { ChevronDown, SlidersHorizontal } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import ToggleButton from '@/components/ToggleButton';
+import { TRACKER_PRESETS, TrackerConfig, TrackerPresetId } from '@/lib/trackerConfig';
+
+type NumericKey = {
+  [K in keyof TrackerConfig]: TrackerConfig[K] extends number ? K : never;
+}[keyof TrackerConfig];
+
+const SLIDERS: { key: NumericKey; label: string; min: number; max: number; step: number }[] = [
+  { key: 'iouWeight', label: 'IoU weight', min: 0, max: 1, step: 0.05 },
+  { key: 'distanceWeight', label: 'Distance weight', min: 0, max: 1, step: 0.05 },
+  { key: 'iouThreshold', label: 'Min IoU', min: 0, max: 0.8, step: 0.05 },
+  { key: 'matchThreshold', label: 'Match cutoff', min: 0, max: 0.8, step: 0.05 },
+  { key: 'lowScore', label: 'Low-score floor', min: 0.05, max: 0.4, step: 0.05 },
+  { key: 'minHits', label: 'Min hits to confirm', min: 1, max: 10, step: 1 },
+  { key: 'maxAgeSeconds', label: 'Max age (s)', min: 0.1, max: 2, step: 0.1 },
+  { key: 'reidThreshold', label: 'Re-ID similarity', min: 0.5, max: 1, step: 0.01 },
+  { key: 'galleryMaxAgeSeconds', label: 'Re-ID memory (s)', min: 0, max: 60, step: 1 },
+  { key: 'embeddingAlpha', label: 'Appearance update', min: 0, max: 0.5, step: 0.01 },
+];
+
+interface TrackerTuningPanelProps {
+  config: TrackerConfig;
+  preset: TrackerPresetId | 'custom';
+  onChange: (config: TrackerConfig, preset: TrackerPresetId | 'custom') => void;
+}
+
+const TrackerTuningPanel: React.FC<TrackerTuningPanelProps> = ({ config, preset, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const update = (patch: Partial<TrackerConfig>) => onChange({ ...config, ...patch }, 'custom');
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="font-mono text-xs text-muted-foreground">
+      <CollapsibleTrigger className="flex items-center gap-1.5 hover:text-foreground transition-colors">
+        <SlidersHorizontal className="w-3 h-3" />
+        Tracker tuning
+        <span className="text-foreground/70">({preset})</span>
+        <ChevronDown className={`w-3 h-3 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-3 p-3 rounded-md border border-border bg-secondary/30 space-y-3">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span>Preset:</span>
+          {TRACKER_PRESETS.map(p => (
+            <ToggleButton
+              key={p.id}
+              active={preset === p.id}
+              onClick={() => onChange(p.config, p.id)}
+            >
+              {p.label}
+            </ToggleButton>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+          {SLIDERS.map(({ key, label, min, max, step }) => (
+            <label key={key} className="flex items-center gap-3">
+              <span className="w-40 shrink-0">{label}</span>
+              <Slider
+                min={min}
+                max={max}
+                step={step}
+                value={[config[key]]}
+                onValueChange={([value]) => update({ [key]: value })}
+                disabled={(key.startsWith('reid') && !config.reid) || (key === 'lowScore' && !config.byteTrack)}
+              />
+              <span className="w-10 text-right text-foreground/80">{config[key]}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-6 flex-wrap">
+          <label className="flex items-center gap-2">
+            <Switch
+              checked={config.assignment === 'hungarian'}
+              onCheckedChange={checked => update({ assignment: checked ? 'hungarian' : 'greedy' })}
+            />
+            Optimal (Hungarian) assignment
+          </label>
+          <label className="flex items-center gap-2">
+            <Switch checked={config.byteTrack} onCheckedChange={byteTrack => update({ byteTrack })} />
+            Low-score second pass
+          </label>
+          <label className="flex items-center gap-2">
+            <Switch checked={config.reid} onCheckedChange={reid => update({ reid })} />
+            Appearance re-ID
+          </label>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default TrackerTuningPanel;
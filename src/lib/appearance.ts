@@ -0,0 +1,94 @@
+// Colour-histogram appearance embeddings for re-identifying people after occlusion
+
+const BINS = 4; // per RGB channel
+const HIST_SIZE = BINS * BINS * BINS;
+
+// Crop is downsampled to this size before building the histogram
+const CROP_W = 16;
+const CROP_H = 32;
+
+let cropCtx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null;
+
+// OffscreenCanvas where available so this also works inside the detection worker
+function getCropContext() {
+  if (!cropCtx) {
+    if (typeof OffscreenCanvas !== 'undefined') {
+      cropCtx = new OffscreenCanvas(CROP_W, CROP_H).getContext('2d', { willReadFrequently: true });
+    } else {
+      const canvas = document.createElement('canvas');
+      canvas.width = CROP_W;
+      canvas.height = CROP_H;
+      cropCtx = canvas.getContext('2d', { willReadFrequently: true });
+    }
+  }
+  return cropCtx;
+}
+
+function normalize(hist: number[]): number[] {
+  const total = hist.reduce((sum, v) => sum + v, 0);
+  return total > 0 ? hist.map(v => v / total) : hist;
+}
+
+function histogram(data: Uint8ClampedArray, width: number, rowStart: number, rowEnd: number): number[] {
+  const hist = new Array(HIST_SIZE).fill(0);
+  const shift = 8 - Math.log2(BINS);
+  for (let y = rowStart; y < rowEnd; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const r = data[i] >> shift;
+      const g = data[i + 1] >> shift;
+      const b = data[i + 2] >> shift;
+      hist[(r * BINS + g) * BINS + b]++;
+    }
+  }
+  return normalize(hist);
+}
+
+/**
+ * Builds an embedding from RGBA pixels of a person crop: separate
+ * histograms for the upper and lower half (roughly top vs. trousers),
+ * concatenated.
+ */
+export function embeddingFromPixels(data: Uint8ClampedArray, width: number, height: number): number[] {
+  const mid = Math.floor(height / 2);
+  return [...histogram(data, width, 0, mid), ...histogram(data, width, mid, height)];
+}
+
+/**
+ * Samples the bbox region of `source` (in source pixel coordinates) and
+ * returns its appearance embedding, or null if the crop can't be read.
+ */
+export function extractEmbedding(
+  source: CanvasImageSource,
+  bbox: [number, number, number, number]
+): number[] | null {
+  const crop = getCropContext();
+  if (!crop) return null;
+
+  // Trim the sides of the box, which are mostly background
+  const [x, y, w, h] = bbox;
+  const inset = w * 0.15;
+  if (w - inset * 2 < 1 || h < 1) return null;
+
+  try {
+    crop.drawImage(source, x + inset, y, w - inset * 2, h, 0, 0, CROP_W, CROP_H);
+    const { data } = crop.getImageData(0, 0, CROP_W, CROP_H);
+    return embeddingFromPixels(data, CROP_W, CROP_H);
+  } catch {
+    return null;
+  }
+}
+
+/** Bhattacharyya coefficient averaged over both halves: 1 = identical, 0 = disjoint. */
+export function embeddingSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.sqrt(a[i] * b[i]);
+  return sum / 2;
+}
+
+/** Exponential moving average of two embeddings, renormalised per half. */
+export function blendEmbedding(prev: number[], next: number[], alpha: number): number[] {
+  const mixed = prev.map((v, i) => v * (1 - alpha) + next[i] * alpha);
+  return [...normalize(mixed.slice(0, HIST_SIZE)), ...normalize(mixed.slice(HIST_SIZE))];
+}
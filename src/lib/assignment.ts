@@ -0,0 +1,128 @@
+// Track ↔ detection assignment solvers
+
+export type AssignmentStrategy = 'hungarian' | 'greedy';
+
+export interface Match {
+  row: number; // track index
+  col: number; // detection index
+  score: number;
+}
+
+/**
+ * Greedy matching: repeatedly takes the highest-scoring free pair.
+ * Cheap, but when two people cross it can lock in a locally good pair
+ * that forces a worse overall matching (and an ID switch).
+ */
+export function greedyAssign(scores: number[][], minScore: number): Match[] {
+  const candidates: Match[] = [];
+  for (let row = 0; row < scores.length; row++) {
+    for (let col = 0; col < scores[row].length; col++) {
+      if (scores[row][col] > minScore) {
+        candidates.push({ row, col, score: scores[row][col] });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const usedRows = new Set<number>();
+  const usedCols = new Set<number>();
+  const matches: Match[] = [];
+  for (const c of candidates) {
+    if (usedRows.has(c.row) || usedCols.has(c.col)) continue;
+    usedRows.add(c.row);
+    usedCols.add(c.col);
+    matches.push(c);
+  }
+  return matches;
+}
+
+/**
+ * Globally optimal matching that maximises the summed score
+ * (Hungarian method, Jonker-Volgenant shortest augmenting path, O(n²m)).
+ * Pairs scoring at or below `minScore` are never returned.
+ */
+export function hungarianAssign(scores: number[][], minScore: number): Match[] {
+  const rows = scores.length;
+  const cols = rows > 0 ? scores[0].length : 0;
+  if (rows === 0 || cols === 0) return [];
+
+  // The solver needs n ≤ m, so work on the transpose when there are more tracks than detections
+  const transpose = rows > cols;
+  const n = transpose ? cols : rows;
+  const m = transpose ? rows : cols;
+
+  // Cost is the negated gain over the cutoff; forbidden pairs cost 0, the same as staying unmatched
+  const cost = (i: number, j: number): number => {
+    const s = transpose ? scores[j][i] : scores[i][j];
+    return s > minScore ? minScore - s : 0;
+  };
+
+  // 1-indexed potentials and column → row assignment; index 0 is a virtual column
+  const u = new Float64Array(n + 1);
+  const v = new Float64Array(m + 1);
+  const p = new Int32Array(m + 1);
+  const way = new Int32Array(m + 1);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Float64Array(m + 1).fill(Infinity);
+    const used = new Uint8Array(m + 1);
+
+    do {
+      used[j0] = 1;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const cur = cost(i0 - 1, j - 1) - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+
+    // Flip the augmenting path
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const matches: Match[] = [];
+  for (let j = 1; j <= m; j++) {
+    if (p[j] === 0) continue;
+    const row = transpose ? j - 1 : p[j] - 1;
+    const col = transpose ? p[j] - 1 : j - 1;
+    const score = scores[row][col];
+    if (score > minScore) matches.push({ row, col, score });
+  }
+  return matches;
+}
+
+export function assign(
+  scores: number[][],
+  minScore: number,
+  strategy: AssignmentStrategy
+): Match[] {
+  return strategy === 'greedy'
+    ? greedyAssign(scores, minScore)
+    : hungarianAssign(scores, minScore);
+}
@@ -0,0 +1,184 @@
+// Main-thread handle on a detector running in a Web Worker, falling back to in-thread inference
+
+import { Detection } from './tracker';
+import {
+  DEFAULT_DETECTOR_CONFIG,
+  Detector,
+  DetectorConfig,
+  DetectorRequest,
+  DetectorResponse,
+  createDetector,
+  withEmbeddings,
+} from './detector';
+
+export interface DetectionResult {
+  frameId: number;
+  timestamp: number; // capture time of the frame (performance.now() ms)
+  latencyMs: number; // capture → result
+  detections: Detection[];
+}
+
+interface PendingFrame {
+  resolve: (detections: Detection[]) => void;
+  reject: (err: Error) => void;
+}
+
+export class AsyncDetector {
+  private worker: Worker | null = null;
+  private fallback: Detector | null = null;
+  private pending = new Map<number, PendingFrame>();
+  private latest: DetectionResult | null = null;
+  private nextFrameId = 1;
+  private inFlight = 0;
+  private config = DEFAULT_DETECTOR_CONFIG;
+  private terminated = false;
+  backend = '';
+  label = '';
+  inWorker = false;
+  /** Called when the worker dies mid-session; `recovered` once main-thread detection has taken over. */
+  onWorkerError?: (err: Error, recovered: boolean) => void;
+
+  /** Loads the model, in a worker when supported; otherwise on the main thread. */
+  async init(config: DetectorConfig = DEFAULT_DETECTOR_CONFIG): Promise<void> {
+    this.config = config;
+    if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined') {
+      try {
+        await this.initWorker(config);
+        return;
+      } catch (err) {
+        console.warn('Detection worker unavailable, running on main thread:', err);
+        this.worker?.terminate();
+        this.worker = null;
+      }
+    }
+    const created = await createDetector(config);
+    this.fallback = created.detector;
+    this.backend = created.backend;
+    this.label = created.detector.label;
+    this.inWorker = false;
+  }
+
+  private initWorker(config: DetectorConfig): Promise<void> {
+    const worker = new Worker(new URL('./detector.worker.ts', import.meta.url), { type: 'module' });
+    this.worker = worker;
+    return new Promise((resolve, reject) => {
+      worker.onerror = e => reject(new Error(e.message));
+      worker.onmessage = (e: MessageEvent<DetectorResponse>) => {
+        const msg = e.data;
+        if (msg.type === 'ready') {
+          this.backend = msg.backend;
+          this.label = msg.label;
+          this.inWorker = true;
+          worker.onmessage = this.handleMessage;
+          worker.onerror = this.handleCrash;
+          resolve();
+        } else if (msg.type === 'error') {
+          reject(new Error(msg.message));
+        }
+      };
+      this.post({ type: 'init', config });
+    });
+  }
+
+  private handleMessage = (e: MessageEvent<DetectorResponse>) => {
+    const msg = e.data;
+    if (msg.type === 'ready' || msg.frameId === undefined) return;
+    const frame = this.pending.get(msg.frameId);
+    if (!frame) return;
+    this.pending.delete(msg.frameId);
+    if (msg.type === 'result') frame.resolve(msg.detections);
+    else frame.reject(new Error(msg.message));
+  };
+
+  // Fail the frames the dead worker held (so `busy` clears) and continue on the main thread
+  private handleCrash = (e: ErrorEvent) => {
+    const err = new Error(e.message || 'Detection worker crashed');
+    console.warn('Detection worker crashed, falling back to main thread:', err);
+    this.worker?.terminate();
+    this.worker = null;
+    this.inWorker = false;
+    for (const frame of this.pending.values()) frame.reject(err);
+    this.pending.clear();
+
+    createDetector(this.config).then(
+      created => {
+        if (this.terminated) {
+          created.detector.dispose();
+          return;
+        }
+        this.fallback = created.detector;
+        this.backend = created.backend;
+        this.label = created.detector.label;
+        this.onWorkerError?.(err, true);
+      },
+      loadErr => this.onWorkerError?.(loadErr instanceof Error ? loadErr : err, false)
+    );
+  };
+
+  private post(msg: DetectorRequest, transfer: Transferable[] = []) {
+    this.worker?.postMessage(msg, transfer);
+  }
+
+  private async run(source: HTMLVideoElement, timestamp: number): Promise<DetectionResult> {
+    const frameId = this.nextFrameId++;
+    const started = performance.now();
+    this.inFlight++;
+    try {
+      let detections: Detection[];
+      if (this.worker) {
+        const bitmap = await createImageBitmap(source);
+        detections = await new Promise<Detection[]>((resolve, reject) => {
+          this.pending.set(frameId, { resolve, reject });
+          this.post({ type: 'detect', frameId, bitmap }, [bitmap]);
+        });
+      } else if (this.fallback) {
+        detections = withEmbeddings(await this.fallback.detect(source), source);
+      } else {
+        throw new Error('Detector not initialised');
+      }
+
+      const result = { frameId, timestamp, latencyMs: performance.now() - started, detections };
+      // Results are keyed by capture time; never let an older frame replace a newer one
+      if (!this.latest || timestamp >= this.latest.timestamp) this.latest = result;
+      return result;
+    } finally {
+      this.inFlight--;
+    }
+  }
+
+  get busy(): boolean {
+    return this.inFlight > 0;
+  }
+
+  /** Fire-and-forget detection of the current frame; false if one is already in flight. */
+  submit(source: HTMLVideoElement, timestamp = performance.now()): boolean {
+    if (this.busy) return false;
+    this.run(source, timestamp).catch(() => {
+      // ignore detection errors
+    });
+    return true;
+  }
+
+  /** Detects the current frame and waits for its result (used by offline export). */
+  async detect(source: HTMLVideoElement): Promise<Detection[]> {
+    return (await this.run(source, performance.now())).detections;
+  }
+
+  getLatest(): DetectionResult | null {
+    return this.latest;
+  }
+
+  clearLatest() {
+    this.latest = null;
+  }
+
+  terminate() {
+    this.terminated = true;
+    this.worker?.terminate();
+    this.worker = null;
+    this.fallback?.dispose();
+    this.fallback = null;
+    for (const frame of this.pending.values()) frame.reject(new Error('Detector terminated'));
+    this.pending.clear();
+  }
+}
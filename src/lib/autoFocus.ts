@@ -0,0 +1,139 @@
+// Picks a subject to focus when nobody is selected, with hysteresis so focus doesn't flicker
+
+import { TrackedPerson } from './tracker';
+
+export type AutoFocusPolicy = 'off' | 'largest' | 'central' | 'moving' | 'first';
+
+export const AUTO_FOCUS_POLICIES: { id: AutoFocusPolicy; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'largest', label: 'Largest' },
+  { id: 'central', label: 'Central' },
+  { id: 'moving', label: 'Moving' },
+  { id: 'first', label: 'First in' },
+];
+
+export interface AutoFocusOptions {
+  switchMargin: number; // a challenger must score this much higher (fraction) than the current subject…
+  holdFrames: number; // …for this many consecutive updates before focus moves
+  motionAlpha: number; // smoothing of the per-track motion estimate
+}
+
+export const DEFAULT_AUTO_FOCUS_OPTIONS: AutoFocusOptions = {
+  switchMargin: 0.25,
+  holdFrames: 15,
+  motionAlpha: 0.1,
+};
+
+export class AutoFocus {
+  private current: number | null = null;
+  private challenger: number | null = null;
+  private challengerFrames = 0;
+  private motion = new Map<number, number>(); // track ID → smoothed speed in box heights per second
+  private firstSeen = new Map<number, number>(); // track ID → update count when first seen
+  private updates = 0;
+
+  constructor(
+    private policy: AutoFocusPolicy = 'off',
+    private options: AutoFocusOptions = DEFAULT_AUTO_FOCUS_OPTIONS
+  ) {}
+
+  setPolicy(policy: AutoFocusPolicy) {
+    if (policy === this.policy) return;
+    this.policy = policy;
+    this.current = null;
+    this.challenger = null;
+    this.challengerFrames = 0;
+  }
+
+  getPolicy(): AutoFocusPolicy {
+    return this.policy;
+  }
+
+  /** Drops the current pick, e.g. while a manual selection overrides auto-focus. */
+  release() {
+    this.current = null;
+    this.challenger = null;
+    this.challengerFrames = 0;
+  }
+
+  /** Updates per-track history and returns the track ID to focus, or null. */
+  update(persons: TrackedPerson[], frameWidth: number, frameHeight: number): number | null {
+    this.updates++;
+    this.observe(persons);
+    if (this.policy === 'off' || persons.length === 0) {
+      this.release();
+      return null;
+    }
+
+    const score = (p: TrackedPerson) => this.score(p, frameWidth, frameHeight);
+    let best = persons[0];
+    for (const p of persons) {
+      if (score(p) > score(best)) best = p;
+    }
+
+    const current = persons.find(p => p.id === this.current);
+    if (!current) {
+      // Subject gone (or none yet): hand off immediately
+      this.current = best.id;
+      this.challenger = null;
+      this.challengerFrames = 0;
+      return this.current;
+    }
+
+    // 'first' never hands off while its subject is still around
+    if (this.policy === 'first' || best.id === current.id || score(best) <= score(current) * (1 + this.options.switchMargin)) {
+      this.challenger = null;
+      this.challengerFrames = 0;
+      return this.current;
+    }
+
+    if (this.challenger === best.id) this.challengerFrames++;
+    else {
+      this.challenger = best.id;
+      this.challengerFrames = 1;
+    }
+    if (this.challengerFrames >= this.options.holdFrames) {
+      this.current = best.id;
+      this.challenger = null;
+      this.challengerFrames = 0;
+    }
+    return this.current;
+  }
+
+  private observe(persons: TrackedPerson[]) {
+    const alive = new Set<number>();
+    for (const p of persons) {
+      alive.add(p.id);
+      if (!this.firstSeen.has(p.id)) this.firstSeen.set(p.id, this.updates);
+      const speed = Math.hypot(p.velocity[0], p.velocity[1]) / Math.max(p.bbox[3], 1);
+      const prev = this.motion.get(p.id) ?? speed;
+      this.motion.set(p.id, prev + (speed - prev) * this.options.motionAlpha);
+    }
+    for (const id of this.firstSeen.keys()) {
+      if (!alive.has(id)) {
+        this.firstSeen.delete(id);
+        this.motion.delete(id);
+      }
+    }
+  }
+
+  // Higher is better; all scores are positive so the switch margin is relative
+  private score(p: TrackedPerson, frameWidth: number, frameHeight: number): number {
+    const [x, y, w, h] = p.bbox;
+    switch (this.policy) {
+      case 'largest':
+        return w * h;
+      case 'central': {
+        const dx = (x + w / 2 - frameWidth / 2) / frameWidth;
+        const dy = (y + h / 2 - frameHeight / 2) / frameHeight;
+        return 1 / (1 + Math.hypot(dx, dy) * 4);
+      }
+      case 'moving':
+        return (this.motion.get(p.id) ?? 0) + 1e-3;
+      case 'first':
+        return 1 / (1 + (this.firstSeen.get(p.id) ?? 0));
+      default:
+        return 0;
+    }
+  }
+}
@@ -1,12 +1,236 @@
 import { TrackedPerson } from "./tracker";
+import { positionStd } from "./kalman";
 
+export type BlurMode = "single" | "depth";
+
+export interface FocusRenderOptions {
+  feather: number; // edge softness in canvas px (0 = hard edge)
+  cornerRadius: number; // fraction of the shorter box side, 0 – 0.5
+  transitionMs: number; // rack-focus duration when focus moves or is cleared
+  blurMode: BlurMode; // one blur level, or graduated depth-of-field
+  depthLayers: number; // number of blur levels in depth mode
+  depthFalloff: number; // depth distance (fraction of frame height) at which blur is maximal
+}
+
+export const DEFAULT_FOCUS_OPTIONS: FocusRenderOptions = {
+  feather: 12,
+  cornerRadius: 0.2,
+  transitionMs: 400,
+  blurMode: "single",
+  depthLayers: 4,
+  depthFalloff: 0.5,
+};
+
+// A sharp region fading in (its track is focused and visible) or out
+interface FocusRegion {
+  id: number;
+  rect: [number, number, number, number]; // canvas px
+  level: number; // linear transition progress, 0 – 1
+}
+
+/** Per-canvas transition state carried between frames. */
+export interface FocusState {
+  regions: FocusRegion[];
+  lastTime: number;
+}
+
+export function createFocusState(): FocusState {
+  return { regions: [], lastTime: 0 };
+}
+
+// Reused offscreen layers: the sharp video and its (feathered) alpha mask
+let layerCanvas: HTMLCanvasElement | null = null;
+let maskLayerCanvas: HTMLCanvasElement | null = null;
+
+function getLayer(canvas: HTMLCanvasElement | null, W: number, H: number): HTMLCanvasElement {
+  const c = canvas ?? document.createElement("canvas");
+  if (c.width !== W) c.width = W;
+  if (c.height !== H) c.height = H;
+  return c;
+}
+
+/**
+ * Depth proxy in [0, 1]: where the box stands on the ground plane, i.e. its
+ * bottom edge relative to the frame height (lower in frame = nearer).
+ */
+function depthOf(bbox: [number, number, number, number], VH: number): number {
+  return Math.min(1, Math.max(0, (bbox[1] + bbox[3]) / VH));
+}
+
+// Simulated depth of field: blur grows with depth distance from the nearest focused subject
+function drawDepthOfField(
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  W: number,
+  H: number,
+  persons: TrackedPerson[],
+  subjects: TrackedPerson[],
+  blurAmount: number,
+  options: FocusRenderOptions
+) {
+  const VW = video.videoWidth;
+  const VH = video.videoHeight;
+  const layers = Math.max(1, Math.round(options.depthLayers));
+  const falloff = Math.max(0.01, options.depthFalloff);
+  const focusDepths = subjects.map((s) => depthOf(s.bbox, VH));
+  const depthDistance = (d: number) => Math.min(...focusDepths.map((f) => Math.abs(d - f)));
+  const blurForLevel = (level: number) => (blurAmount * (level + 1)) / layers;
+  const levelFor = (distance: number) => Math.min(layers - 1, Math.floor((distance / falloff) * layers));
+
+  const drawBlurred = (level: number, clip: () => void) => {
+    ctx.save();
+    ctx.beginPath();
+    clip();
+    ctx.clip();
+    ctx.filter = `blur(${blurForLevel(level)}px)`;
+    ctx.drawImage(video, 0, 0, W, H);
+    ctx.restore();
+  };
+
+  // Farthest level everywhere, then nested horizontal bands around each subject's ground line
+  drawBlurred(layers - 1, () => ctx.rect(0, 0, W, H));
+  for (let level = layers - 2; level >= 0; level--) {
+    const reach = ((level + 1) / layers) * falloff;
+    drawBlurred(level, () => {
+      for (const focusDepth of focusDepths) {
+        ctx.rect(0, (focusDepth - reach) * H, W, reach * 2 * H);
+      }
+    });
+  }
+
+  // Other people get the blur of their own depth, far to near
+  const others = persons
+    .filter((p) => !subjects.includes(p))
+    .sort((a, b) => depthOf(a.bbox, VH) - depthOf(b.bbox, VH));
+  for (const p of others) {
+    const level = levelFor(depthDistance(depthOf(p.bbox, VH)));
+    const [bx, by, bw, bh] = p.bbox;
+    drawBlurred(level, () => ctx.rect((bx * W) / VW, (by * H) / VH, (bw * W) / VW, (bh * H) / VH));
+  }
+}
+
+function easeInOut(t: number): number {
+  return t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+}
+
+function regionRect(person: TrackedPerson, scaleX: number, scaleY: number): [number, number, number, number] {
+  const [bx, by, bw, bh] = person.bbox;
+
+  // Grow the region by the motion uncertainty while the track is coasting
+  const pad = person.state === "coasting" ? positionStd(person.corrected) : 0;
+
+  return [(bx - pad) * scaleX, (by - pad) * scaleY, (bw + pad * 2) * scaleX, (bh + pad * 2) * scaleY];
+}
+
+// Advance every region towards its target and drop the ones that have fully faded out
+function stepRegions(
+  state: FocusState,
+  persons: TrackedPerson[],
+  selectedIds: ReadonlySet<number>,
+  scaleX: number,
+  scaleY: number,
+  transitionMs: number,
+  now: number
+) {
+  const dt = state.lastTime ? now - state.lastTime : 0;
+  state.lastTime = now;
+  const step = transitionMs > 0 ? dt / transitionMs : 1;
+
+  for (const region of state.regions) {
+    const person = persons.find((p) => p.id === region.id);
+    if (person) region.rect = regionRect(person, scaleX, scaleY);
+    const visible = selectedIds.has(region.id) && !!person;
+    region.level = Math.min(1, Math.max(0, region.level + (visible ? step : -step)));
+  }
+
+  for (const selected of persons) {
+    if (!selectedIds.has(selected.id) || state.regions.some((r) => r.id === selected.id)) continue;
+    state.regions.push({
+      id: selected.id,
+      rect: regionRect(selected, scaleX, scaleY),
+      level: Math.min(1, step),
+    });
+  }
+
+  state.regions = state.regions.filter((r) => r.level > 0);
+}
+
+function drawRegion(
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  W: number,
+  H: number,
+  region: FocusRegion,
+  mask: HTMLCanvasElement | null,
+  options: FocusRenderOptions
+) {
+  maskLayerCanvas = getLayer(maskLayerCanvas, W, H);
+  layerCanvas = getLayer(layerCanvas, W, H);
+  const maskCtx = maskLayerCanvas.getContext("2d");
+  const layer = layerCanvas.getContext("2d");
+  const alpha = easeInOut(region.level);
+
+  if (!maskCtx || !layer) {
+    // No offscreen canvas → hard-edged clip
+    const [dx, dy, dw, dh] = region.rect;
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    ctx.beginPath();
+    ctx.rect(dx, dy, dw, dh);
+    ctx.clip();
+    ctx.drawImage(video, 0, 0, W, H);
+    ctx.restore();
+    return;
+  }
+
+  // Alpha mask: segmentation if available, else a rounded box; softened by the feather blur
+  maskCtx.clearRect(0, 0, W, H);
+  maskCtx.filter = options.feather > 0 ? `blur(${options.feather / 2}px)` : "none";
+  if (mask) {
+    maskCtx.drawImage(mask, 0, 0, W, H);
+  } else {
+    const [dx, dy, dw, dh] = region.rect;
+    const radius = Math.max(0, Math.min(0.5, options.cornerRadius)) * Math.min(dw, dh);
+    maskCtx.fillStyle = "#fff";
+    maskCtx.beginPath();
+    if (typeof maskCtx.roundRect === "function") {
+      maskCtx.roundRect(dx, dy, dw, dh, radius);
+    } else {
+      maskCtx.rect(dx, dy, dw, dh);
+    }
+    maskCtx.fill();
+  }
+  maskCtx.filter = "none";
+
+  // Sharp video through the mask
+  layer.globalCompositeOperation = "copy";
+  layer.drawImage(video, 0, 0, W, H);
+  layer.globalCompositeOperation = "destination-in";
+  layer.drawImage(maskLayerCanvas, 0, 0);
+  layer.globalCompositeOperation = "source-over";
+
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  ctx.drawImage(layerCanvas, 0, 0);
+  ctx.restore();
+}
+
+/**
+ * Draws the frame blurred with the selected people sharp. Pass a `state`
+ * (from `createFocusState`) to animate focus changes; without one the
+ * sharp region switches instantly.
+ */
 export function renderWithSelectiveBlur(
   ctx: CanvasRenderingContext2D,
   video: HTMLVideoElement,
   canvas: HTMLCanvasElement,
   persons: TrackedPerson[],
-  selectedPersonId: number | null,
-  blurAmount: number = 15
+  selectedIds: ReadonlySet<number>,
+  blurAmount: number = 15,
+  masks: ReadonlyMap<number, HTMLCanvasElement> = new Map(), // per-pixel alpha by track ID; box mask if missing
+  state: FocusState | null = null,
+  options: FocusRenderOptions = DEFAULT_FOCUS_OPTIONS,
+  now: number = performance.now() // ms; offline export passes the frame time
 ) {
   const W = canvas.width;
   const H = canvas.height;
@@ -18,35 +242,30 @@ export function renderWithSelectiveBlur(
   const scaleX = W / VW;
   const scaleY = H / VH;
 
-  // Draw blurred background
-  ctx.save();
-  ctx.filter = `blur(${blurAmount}px)`;
-  ctx.drawImage(video, 0, 0, W, H);
-  ctx.restore();
-
-  // If no person is selected → nothing to unblur
-  if (selectedPersonId === null) return;
+  // Draw blurred background: graduated around the subjects in depth mode, else one level
+  const subjects = persons.filter((p) => selectedIds.has(p.id));
+  if (options.blurMode === "depth" && subjects.length > 0) {
+    drawDepthOfField(ctx, video, W, H, persons, subjects, blurAmount, options);
+  } else {
+    ctx.save();
+    ctx.filter = `blur(${blurAmount}px)`;
+    ctx.drawImage(video, 0, 0, W, H);
+    ctx.restore();
+  }
 
-  const person = persons.find((p) => p.id === selectedPersonId);
-  if (!person) return;
+  const focus = state ?? createFocusState();
+  stepRegions(
+    focus,
+    persons,
+    selectedIds,
+    scaleX,
+    scaleY,
+    state ? options.transitionMs : 0,
+    now
+  );
 
-  // Extract bounding box
-  const [bx, by, bw, bh] = person.bbox;
-
-  // Scaled coordinates on canvas
-  const dx = bx * scaleX;
-  const dy = by * scaleY;
-  const dw = bw * scaleX;
-  const dh = bh * scaleY;
-
-  // Draw sharp person (cut-out)
-  ctx.save();
-  ctx.beginPath();
-  ctx.rect(dx, dy, dw, dh);   // exact bounding box region
-  ctx.clip();
-
-  // Draw SHARP video only inside person area
-  ctx.filter = "none"; // remove blur
-  ctx.drawImage(video, 0, 0, W, H);
-  ctx.restore();
-}
\ No newline at end of file
+  // Draw SHARP video inside each focus region (fading ones included)
+  for (const region of focus.regions) {
+    drawRegion(ctx, video, W, H, region, masks.get(region.id) ?? null, options);
+  }
+}
@@ -0,0 +1,143 @@
+// Display-side smoothing of track boxes: temporal filtering of position and size, and
+// interpolation between detection updates. The tracker's association state is never touched.
+
+import { TrackedPerson } from './tracker';
+
+export type SmoothingMethod = 'off' | 'ema' | 'one-euro';
+
+export interface SmoothingConfig {
+  method: SmoothingMethod;
+  emaAlpha: number; // weight of the newest box, 0 – 1 (EMA)
+  minCutoff: number; // Hz; lower = steadier at rest (One-Euro)
+  beta: number; // cutoff increase per px/s of speed; higher = less lag when moving (One-Euro)
+  interpolate: boolean; // move boxes along the track velocity between detection updates
+}
+
+export const DEFAULT_SMOOTHING_CONFIG: SmoothingConfig = {
+  method: 'one-euro',
+  emaAlpha: 0.5,
+  minCutoff: 1,
+  beta: 0.02,
+  interpolate: true,
+};
+
+export const SMOOTHING_METHODS: { id: SmoothingMethod; label: string }[] = [
+  { id: 'off', label: 'Raw' },
+  { id: 'ema', label: 'EMA' },
+  { id: 'one-euro', label: 'One-Euro' },
+];
+
+const DERIVATIVE_CUTOFF = 1; // Hz
+const INTERVAL_ALPHA = 0.2;
+
+type Box = [number, number, number, number];
+
+function smoothingFactor(dtSeconds: number, cutoff: number): number {
+  const r = 2 * Math.PI * cutoff * dtSeconds;
+  return r / (r + 1);
+}
+
+/** One-Euro filter (Casiez et al. 2012): a low-pass whose cutoff rises with speed. */
+export class OneEuroFilter {
+  private value: number | null = null;
+  private derivative = 0;
+
+  constructor(private minCutoff: number, private beta: number) {}
+
+  filter(value: number, dtSeconds: number): number {
+    if (this.value === null || dtSeconds <= 0) {
+      this.value ??= value;
+      return this.value;
+    }
+    const rawDerivative = (value - this.value) / dtSeconds;
+    this.derivative += (rawDerivative - this.derivative) * smoothingFactor(dtSeconds, DERIVATIVE_CUTOFF);
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.derivative);
+    this.value += (value - this.value) * smoothingFactor(dtSeconds, cutoff);
+    return this.value;
+  }
+}
+
+// Boxes are filtered as centre + size so that jitter in one edge doesn't drag the whole box
+const toCentre = ([x, y, w, h]: Box): Box => [x + w / 2, y + h / 2, w, h];
+const fromCentre = ([cx, cy, w, h]: Box): Box => [cx - w / 2, cy - h / 2, w, h];
+
+interface SmoothedTrack {
+  box: Box; // filtered [cx, cy, w, h]
+  filters: OneEuroFilter[];
+  velocity: [number, number]; // centre px per second, from the tracker
+  time: number; // ms of the last update
+}
+
+export class BoxSmoother {
+  private tracks = new Map<number, SmoothedTrack>();
+  private intervalMs = 100; // running average time between updates
+  private lastUpdate = 0;
+
+  constructor(private config: SmoothingConfig = DEFAULT_SMOOTHING_CONFIG) {}
+
+  /** Filters restart from the next update. */
+  setConfig(config: SmoothingConfig) {
+    this.config = config;
+    this.tracks.clear();
+  }
+
+  /** Feeds the tracker output of one detection update at `time` (ms). */
+  update(persons: TrackedPerson[], time: number) {
+    if (this.lastUpdate > 0 && time > this.lastUpdate) {
+      this.intervalMs += (time - this.lastUpdate - this.intervalMs) * INTERVAL_ALPHA;
+    }
+    this.lastUpdate = time;
+
+    const seen = new Set<number>();
+    for (const person of persons) {
+      seen.add(person.id);
+      const raw = toCentre(person.bbox);
+      const track = this.tracks.get(person.id);
+      if (!track) {
+        const filters = raw.map(() => new OneEuroFilter(this.config.minCutoff, this.config.beta));
+        filters.forEach((f, i) => f.filter(raw[i], 0));
+        this.tracks.set(person.id, { box: raw, filters, velocity: person.velocity, time });
+        continue;
+      }
+      track.box = this.smooth(track, raw, (time - track.time) / 1000);
+      track.velocity = person.velocity;
+      track.time = time;
+    }
+    for (const id of this.tracks.keys()) {
+      if (!seen.has(id)) this.tracks.delete(id);
+    }
+  }
+
+  private smooth(track: SmoothedTrack, raw: Box, dtSeconds: number): Box {
+    switch (this.config.method) {
+      case 'ema': {
+        const alpha = this.config.emaAlpha;
+        return track.box.map((v, i) => v + (raw[i] - v) * alpha) as Box;
+      }
+      case 'one-euro':
+        return raw.map((v, i) => track.filters[i].filter(v, dtSeconds)) as Box;
+      default:
+        return raw;
+    }
+  }
+
+  /**
+   * Copies of `persons` with display boxes at render time `now`: the smoothed box, moved
+   * along the track velocity for the time since its last update, at most one update
+   * interval ahead. Tracks not seen by `update` are returned as-is.
+   */
+  apply(persons: TrackedPerson[], now: number): TrackedPerson[] {
+    return persons.map(person => {
+      const track = this.tracks.get(person.id);
+      if (!track) return person;
+      const [cx, cy, w, h] = track.box;
+      const t = this.config.interpolate ? Math.min(this.intervalMs, Math.max(0, now - track.time)) / 1000 : 0;
+      return { ...person, bbox: fromCentre([cx + track.velocity[0] * t, cy + track.velocity[1] * t, w, h]) };
+    });
+  }
+
+  reset() {
+    this.tracks.clear();
+    this.lastUpdate = 0;
+  }
+}
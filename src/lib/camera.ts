@@ -0,0 +1,89 @@
+// Camera selection: device enumeration, capture constraints and readable getUserMedia errors
+
+export type FacingMode = 'user' | 'environment';
+export type ResolutionPresetId = '480p' | '720p' | '1080p';
+
+export interface CameraConfig {
+  deviceId: string | null; // a specific camera; null picks by facing mode
+  facingMode: FacingMode;
+  resolution: ResolutionPresetId;
+  frameRate: number;
+}
+
+export const DEFAULT_CAMERA_CONFIG: CameraConfig = {
+  deviceId: null,
+  facingMode: 'user',
+  resolution: '720p',
+  frameRate: 30,
+};
+
+export const RESOLUTION_PRESETS: { id: ResolutionPresetId; width: number; height: number }[] = [
+  { id: '480p', width: 640, height: 480 },
+  { id: '720p', width: 1280, height: 720 },
+  { id: '1080p', width: 1920, height: 1080 },
+];
+
+export const FRAME_RATES = [15, 30, 60];
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+/** Video constraints for `config`; sizes and rates are ideals the browser may round. */
+export function cameraConstraints(config: CameraConfig): MediaStreamConstraints {
+  const preset = RESOLUTION_PRESETS.find(p => p.id === config.resolution) ?? RESOLUTION_PRESETS[1];
+  return {
+    video: {
+      ...(config.deviceId ? { deviceId: { exact: config.deviceId } } : { facingMode: config.facingMode }),
+      width: { ideal: preset.width },
+      height: { ideal: preset.height },
+      frameRate: { ideal: config.frameRate },
+    },
+  };
+}
+
+export async function openCamera(config: CameraConfig): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new DOMException('Camera API unavailable', 'NotSupportedError');
+  }
+  return navigator.mediaDevices.getUserMedia(cameraConstraints(config));
+}
+
+/** Video inputs; labels are only exposed once camera permission has been granted. */
+export async function listCameras(): Promise<CameraDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(d => d.kind === 'videoinput' && d.deviceId)
+    .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Camera ${i + 1}` }));
+}
+
+/** Device ID of the camera actually feeding `stream`, if the browser reports it. */
+export function activeDeviceId(stream: MediaStream): string | null {
+  return stream.getVideoTracks()[0]?.getSettings().deviceId ?? null;
+}
+
+/** User-facing explanation of a getUserMedia failure. */
+export function cameraErrorMessage(err: unknown): string {
+  switch ((err as { name?: string })?.name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+      return 'Camera permission was denied. Allow camera access in your browser settings and try again.';
+    case 'SecurityError':
+      return 'Camera access is blocked on this page. It needs a secure (HTTPS) connection.';
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return 'The camera is busy. Close other apps or tabs using it and try again.';
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return 'No camera was found. Connect one and try again.';
+    case 'OverconstrainedError':
+      return "The selected camera doesn't support these settings. Try a lower resolution or frame rate.";
+    case 'NotSupportedError':
+      return "This browser doesn't support camera access.";
+    default:
+      return 'The camera could not be started.';
+  }
+}
@@ -0,0 +1,32 @@
+import * as tf from '@tensorflow/tfjs';
+import * as cocoSsd from '@tensorflow-models/coco-ssd';
+import { Detection } from './tracker';
+import { Detector, DetectorInput } from './detector';
+
+const MAX_BOXES = 30;
+// Low on purpose: the tracker uses weak boxes to hold on to partially occluded objects
+const MIN_SCORE = 0.1;
+
+export class CocoSsdDetector implements Detector {
+  private constructor(private model: cocoSsd.ObjectDetection, readonly label: string) {}
+
+  static async load(base: cocoSsd.ObjectDetectionBaseModel): Promise<CocoSsdDetector> {
+    return new CocoSsdDetector(await cocoSsd.load({ base }), `COCO-SSD ${base}`);
+  }
+
+  async detect(input: DetectorInput): Promise<Detection[]> {
+    // The model takes video elements directly; bitmaps (in the worker) go through a tensor
+    const pixels = input instanceof ImageBitmap ? tf.browser.fromPixels(input) : null;
+    try {
+      const predictions = await this.model.detect(pixels ?? (input as HTMLVideoElement), MAX_BOXES, MIN_SCORE);
+      // All classes; the tracker decides which ones it follows
+      return predictions.map((p, i) => ({ id: i, bbox: p.bbox, score: p.score, class: p.class }));
+    } finally {
+      pixels?.dispose();
+    }
+  }
+
+  dispose() {
+    this.model.dispose();
+  }
+}
@@ -0,0 +1,89 @@
+// Decides when to run detection, from measured inference latency and scene motion
+
+import { TrackedPerson } from './tracker';
+import { positionStd } from './kalman';
+
+export interface SchedulerSettings {
+  targetFps: number; // render rate cap
+  powerSaver: boolean; // lower render cap and back off detection harder
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  targetFps: 30,
+  powerSaver: false,
+};
+
+const POWER_SAVER_MAX_FPS = 15;
+const MAX_INTERVAL_MS = 1000;
+const LATENCY_ALPHA = 0.2;
+
+// Motion is measured in box heights per second, so it doesn't depend on the cadence chosen here
+const FAST_MOTION = 1.2;
+const SLOW_MOTION = 0.15;
+const UNCERTAIN_STD = 0.15; // selected-track centre std as a fraction of its height
+
+export class DetectionScheduler {
+  private latencyMs = 50;
+  private lastSubmit = 0;
+  private interval = 100;
+
+  constructor(private settings: SchedulerSettings = DEFAULT_SCHEDULER_SETTINGS) {}
+
+  setSettings(settings: SchedulerSettings) {
+    this.settings = settings;
+  }
+
+  /** Render frame budget in ms. */
+  frameIntervalMs(): number {
+    const fps = this.settings.powerSaver
+      ? Math.min(this.settings.targetFps, POWER_SAVER_MAX_FPS)
+      : this.settings.targetFps;
+    return 1000 / Math.max(1, fps);
+  }
+
+  recordLatency(ms: number) {
+    this.latencyMs += (ms - this.latencyMs) * LATENCY_ALPHA;
+  }
+
+  getLatencyMs(): number {
+    return this.latencyMs;
+  }
+
+  getIntervalMs(): number {
+    return this.interval;
+  }
+
+  /**
+   * Recomputes the detection interval: faster during fast motion or when a
+   * selected track is uncertain, slower on static scenes and slow devices.
+   */
+  update(persons: TrackedPerson[], selectedIds: ReadonlySet<number>): number {
+    // Leave headroom for rendering; a slow device can't detect faster than it infers anyway
+    const base = this.latencyMs * (this.settings.powerSaver ? 3 : 1.5);
+
+    let motion = 0;
+    let uncertainty = 0;
+    for (const p of persons) {
+      const h = Math.max(p.bbox[3], 1);
+      motion = Math.max(motion, Math.hypot(p.velocity[0], p.velocity[1]) / h);
+      if (selectedIds.has(p.id)) uncertainty = Math.max(uncertainty, positionStd(p.corrected) / h);
+    }
+
+    let factor = 1;
+    if (persons.length === 0 || motion < SLOW_MOTION) factor = 2;
+    else if (motion > FAST_MOTION) factor = 0.5;
+    if (uncertainty > UNCERTAIN_STD) factor *= 0.5;
+    if (this.settings.powerSaver) factor *= 2;
+
+    this.interval = Math.min(MAX_INTERVAL_MS, Math.max(this.frameIntervalMs(), base * factor));
+    return this.interval;
+  }
+
+  shouldDetect(now: number): boolean {
+    return now - this.lastSubmit >= this.interval;
+  }
+
+  markSubmitted(now: number) {
+    this.lastSubmit = now;
+  }
+}
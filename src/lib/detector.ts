@@ -0,0 +1,117 @@
+// Detector abstraction: pluggable person detectors and TF.js backend selection,
+// shared by the detection worker and the main-thread fallback
+
+import { Detection } from './tracker';
+import { extractEmbedding } from './appearance';
+import wasmPath from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url';
+import wasmSimdPath from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url';
+import wasmThreadedSimdPath from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url';
+
+export type TfBackend = 'webgl' | 'wasm' | 'webgpu' | 'cpu';
+export type DetectorModelId = 'coco-ssd-lite' | 'coco-ssd-v2' | 'coco-ssd-v1' | 'movenet' | 'mock';
+
+export interface DetectorConfig {
+  model: DetectorModelId;
+  backend: TfBackend | 'auto';
+}
+
+export const DEFAULT_DETECTOR_CONFIG: DetectorConfig = {
+  model: 'coco-ssd-lite',
+  backend: 'auto',
+};
+
+export const DETECTOR_MODELS: { id: DetectorModelId; label: string }[] = [
+  { id: 'coco-ssd-lite', label: 'COCO-SSD lite_mobilenet_v2' },
+  { id: 'coco-ssd-v2', label: 'COCO-SSD mobilenet_v2' },
+  { id: 'coco-ssd-v1', label: 'COCO-SSD mobilenet_v1' },
+  { id: 'movenet', label: 'MoveNet MultiPose' },
+  { id: 'mock', label: 'Mock (synthetic)' },
+];
+
+export const TF_BACKENDS: (TfBackend | 'auto')[] = ['auto', 'webgl', 'wasm', 'webgpu', 'cpu'];
+
+// Tried in order for 'auto' until one initialises
+const BACKEND_PREFERENCE: TfBackend[] = ['webgl', 'wasm', 'cpu'];
+
+export type DetectorInput = HTMLVideoElement | ImageBitmap;
+
+/** Anything that turns a frame into detections (embeddings are added by the caller). */
+export interface Detector {
+  readonly label: string;
+  detect(input: DetectorInput): Promise<Detection[]>;
+  dispose(): void;
+}
+
+// Messages between AsyncDetector and detector.worker
+export type DetectorRequest =
+  | { type: 'init'; config: DetectorConfig }
+  | { type: 'detect'; frameId: number; bitmap: ImageBitmap };
+
+export type DetectorResponse =
+  | { type: 'ready'; backend: string; label: string }
+  | { type: 'result'; frameId: number; detections: Detection[] }
+  | { type: 'error'; frameId?: number; message: string };
+
+export function inputSize(input: DetectorInput): { width: number; height: number } {
+  return input instanceof ImageBitmap
+    ? { width: input.width, height: input.height }
+    : { width: input.videoWidth, height: input.videoHeight };
+}
+
+async function registerBackend(backend: TfBackend) {
+  if (backend === 'wasm') {
+    const wasm = await import('@tensorflow/tfjs-backend-wasm');
+    wasm.setWasmPaths({
+      'tfjs-backend-wasm.wasm': wasmPath,
+      'tfjs-backend-wasm-simd.wasm': wasmSimdPath,
+      'tfjs-backend-wasm-threaded-simd.wasm': wasmThreadedSimdPath,
+    });
+  } else if (backend === 'webgpu') {
+    await import('@tensorflow/tfjs-backend-webgpu');
+  }
+}
+
+/** Activates the requested TF.js backend and returns the one actually in use. */
+export async function setupBackend(requested: TfBackend | 'auto'): Promise<string> {
+  const tf = await import('@tensorflow/tfjs');
+  const candidates = requested === 'auto' ? BACKEND_PREFERENCE : [requested];
+  for (const backend of candidates) {
+    try {
+      await registerBackend(backend);
+      if (await tf.setBackend(backend)) break;
+    } catch {
+      // try the next backend
+    }
+  }
+  await tf.ready();
+  if (requested !== 'auto' && tf.getBackend() !== requested) {
+    throw new Error(`Backend "${requested}" is not available`);
+  }
+  return tf.getBackend();
+}
+
+export async function createDetector(config: DetectorConfig): Promise<{ detector: Detector; backend: string }> {
+  if (config.model === 'mock') {
+    const { MockDetector } = await import('./mockDetector');
+    return { detector: new MockDetector(), backend: 'none' };
+  }
+
+  const backend = await setupBackend(config.backend);
+  if (config.model === 'movenet') {
+    const { MoveNetDetector } = await import('./moveNetDetector');
+    return { detector: await MoveNetDetector.load(), backend };
+  }
+
+  const { CocoSsdDetector } = await import('./cocoSsdDetector');
+  const base = config.model === 'coco-ssd-v1'
+    ? 'mobilenet_v1'
+    : config.model === 'coco-ssd-v2'
+      ? 'mobilenet_v2'
+      : 'lite_mobilenet_v2';
+  return { detector: await CocoSsdDetector.load(base), backend };
+}
+
+/** Attaches appearance embeddings sampled from the frame the detections came from. */
+export function withEmbeddings(detections: Detection[], source: CanvasImageSource): Detection[] {
+  return detections.map(d => ({ ...d, embedding: extractEmbedding(source, d.bbox) ?? undefined }));
+}
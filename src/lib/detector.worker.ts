@@ -0,0 +1,42 @@
+// Runs the configured detector off the main thread on transferred ImageBitmap frames
+
+import { Detector, DetectorRequest, DetectorResponse, createDetector, withEmbeddings } from './detector';
+
+// The DOM lib types `self` as Window; these are the worker members used here
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<DetectorRequest>) => void) | null;
+  postMessage(msg: DetectorResponse): void;
+};
+
+let detector: Detector | null = null;
+
+function post(msg: DetectorResponse) {
+  scope.postMessage(msg);
+}
+
+scope.onmessage = async (e: MessageEvent<DetectorRequest>) => {
+  const msg = e.data;
+
+  if (msg.type === 'init') {
+    try {
+      const created = await createDetector(msg.config);
+      detector?.dispose();
+      detector = created.detector;
+      post({ type: 'ready', backend: created.backend, label: detector.label });
+    } catch (err) {
+      post({ type: 'error', message: String(err) });
+    }
+    return;
+  }
+
+  const { frameId, bitmap } = msg;
+  try {
+    if (!detector) throw new Error('Model not loaded');
+    const detections = await detector.detect(bitmap);
+    post({ type: 'result', frameId, detections: withEmbeddings(detections, bitmap) });
+  } catch (err) {
+    post({ type: 'error', frameId, message: String(err) });
+  } finally {
+    bitmap.close();
+  }
+};
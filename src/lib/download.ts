@@ -0,0 +1,15 @@
+// Saving generated files from the browser
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** e.g. `smartfocus-2024-05-01T12-30-00-000Z.webm` */
+export function timestampedFilename(prefix: string, extension: string): string {
+  return `${prefix}-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
+}
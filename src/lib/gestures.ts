@@ -0,0 +1,133 @@
+// Touch gesture recognition (tap, long-press, swipe, pinch) from raw pointer events
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+export type Gesture =
+  | { type: 'tap'; x: number; y: number }
+  | { type: 'longpress'; x: number; y: number }
+  | { type: 'swipe'; direction: SwipeDirection }
+  | { type: 'pinch'; scale: number; x: number; y: number }; // scale change since the previous pinch event
+
+export interface GestureOptions {
+  tapSlop: number; // px a finger may drift and still count as a tap / long-press
+  longPressMs: number;
+  swipeMinDistance: number; // px
+  swipeMaxMs: number;
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureOptions = {
+  tapSlop: 10,
+  longPressMs: 500,
+  swipeMinDistance: 60,
+  swipeMaxMs: 500,
+};
+
+interface TrackedPointer {
+  startX: number;
+  startY: number;
+  startTime: number;
+  x: number;
+  y: number;
+}
+
+export class GestureRecognizer {
+  private pointers = new Map<number, TrackedPointer>();
+  private longPressTimer: ReturnType<typeof setTimeout> | null = null;
+  private longPressed = false;
+  private moved = false;
+  private pinching = false; // stays set until every finger of a pinch is lifted
+  private pinchDistance = 0;
+
+  constructor(
+    private onGesture: (gesture: Gesture) => void,
+    private options: GestureOptions = DEFAULT_GESTURE_OPTIONS
+  ) {}
+
+  pointerDown(id: number, x: number, y: number, time: number) {
+    this.pointers.set(id, { startX: x, startY: y, startTime: time, x, y });
+
+    if (this.pointers.size === 1) {
+      this.longPressed = false;
+      this.moved = false;
+      this.longPressTimer = setTimeout(() => {
+        this.longPressTimer = null;
+        this.longPressed = true;
+        this.onGesture({ type: 'longpress', x, y });
+      }, this.options.longPressMs);
+    } else if (this.pointers.size === 2) {
+      this.cancelLongPress();
+      this.pinching = true;
+      this.pinchDistance = this.spread();
+    }
+  }
+
+  pointerMove(id: number, x: number, y: number) {
+    const pointer = this.pointers.get(id);
+    if (!pointer) return;
+    pointer.x = x;
+    pointer.y = y;
+
+    if (this.pinching) {
+      if (this.pointers.size !== 2) return;
+      const distance = this.spread();
+      if (this.pinchDistance > 0 && distance > 0) {
+        const [a, b] = [...this.pointers.values()];
+        this.onGesture({ type: 'pinch', scale: distance / this.pinchDistance, x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+      }
+      this.pinchDistance = distance;
+    } else if (Math.hypot(x - pointer.startX, y - pointer.startY) > this.options.tapSlop) {
+      this.moved = true;
+      this.cancelLongPress();
+    }
+  }
+
+  pointerUp(id: number, x: number, y: number, time: number) {
+    const pointer = this.pointers.get(id);
+    if (!pointer) return;
+    this.pointers.delete(id);
+
+    if (this.pinching) {
+      if (this.pointers.size === 0) this.pinching = false;
+      return;
+    }
+    this.cancelLongPress();
+    if (this.longPressed) return;
+
+    const dx = x - pointer.startX;
+    const dy = y - pointer.startY;
+    if (!this.moved && Math.hypot(dx, dy) <= this.options.tapSlop) {
+      this.onGesture({ type: 'tap', x, y });
+      return;
+    }
+
+    const fast = time - pointer.startTime <= this.options.swipeMaxMs;
+    if (!fast || Math.max(Math.abs(dx), Math.abs(dy)) < this.options.swipeMinDistance) return;
+    // Require a dominant axis so diagonal drags don't count
+    if (Math.abs(dx) > Math.abs(dy) * 1.5) {
+      this.onGesture({ type: 'swipe', direction: dx < 0 ? 'left' : 'right' });
+    } else if (Math.abs(dy) > Math.abs(dx) * 1.5) {
+      this.onGesture({ type: 'swipe', direction: dy < 0 ? 'up' : 'down' });
+    }
+  }
+
+  pointerCancel(id: number) {
+    this.pointers.delete(id);
+    this.cancelLongPress();
+    if (this.pointers.size === 0) this.pinching = false;
+  }
+
+  dispose() {
+    this.cancelLongPress();
+    this.pointers.clear();
+  }
+
+  private cancelLongPress() {
+    if (this.longPressTimer !== null) clearTimeout(this.longPressTimer);
+    this.longPressTimer = null;
+  }
+
+  private spread(): number {
+    const [a, b] = [...this.pointers.values()];
+    return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : 0;
+  }
+}
@@ -0,0 +1,169 @@
+// Constant-velocity Kalman filter over bbox centre, aspect ratio and height (SORT / DeepSORT style)
+//
+// State:       [cx, cy, a, h, vcx, vcy, va, vh]
+// Measurement: [cx, cy, a, h]
+
+type Matrix = number[][];
+
+export interface KalmanState {
+  mean: number[]; // 8-dim state vector
+  covariance: Matrix; // 8x8
+}
+
+const NDIM = 4;
+
+// Velocities are in px per second. Noise is tuned for one video frame at 30 fps and scaled by
+// the real time between updates, which varies with the adaptive detection cadence.
+export const NOMINAL_STEP_S = 1 / 30;
+
+// Process / measurement noise relative to the box height, per nominal step
+const STD_WEIGHT_POSITION = 1 / 20;
+const STD_WEIGHT_VELOCITY = 1 / 160 / NOMINAL_STEP_S;
+
+function identity(n: number): Matrix {
+  return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+}
+
+function diag(values: number[]): Matrix {
+  return values.map((v, i) => values.map((_, j) => (i === j ? v : 0)));
+}
+
+function transpose(a: Matrix): Matrix {
+  return a[0].map((_, j) => a.map(row => row[j]));
+}
+
+function multiply(a: Matrix, b: Matrix): Matrix {
+  const out: Matrix = [];
+  for (let i = 0; i < a.length; i++) {
+    const row = new Array(b[0].length).fill(0);
+    for (let k = 0; k < b.length; k++) {
+      const aik = a[i][k];
+      if (aik === 0) continue;
+      for (let j = 0; j < b[0].length; j++) row[j] += aik * b[k][j];
+    }
+    out.push(row);
+  }
+  return out;
+}
+
+function add(a: Matrix, b: Matrix): Matrix {
+  return a.map((row, i) => row.map((v, j) => v + b[i][j]));
+}
+
+function subtract(a: Matrix, b: Matrix): Matrix {
+  return a.map((row, i) => row.map((v, j) => v - b[i][j]));
+}
+
+function multiplyVector(a: Matrix, x: number[]): number[] {
+  return a.map(row => row.reduce((sum, v, j) => sum + v * x[j], 0));
+}
+
+// Gauss-Jordan inverse; the innovation covariance is SPD so no pivoting edge cases in practice
+function invert(a: Matrix): Matrix {
+  const n = a.length;
+  const m = a.map((row, i) => [...row, ...identity(n)[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    const p = m[col][col] || 1e-12;
+    for (let j = 0; j < 2 * n; j++) m[col][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = m[r][col];
+      if (f === 0) continue;
+      for (let j = 0; j < 2 * n; j++) m[r][j] -= f * m[col][j];
+    }
+  }
+  return m.map(row => row.slice(n));
+}
+
+// F: position += velocity · dt
+function motion(dt: number): Matrix {
+  const f = identity(2 * NDIM);
+  for (let i = 0; i < NDIM; i++) f[i][NDIM + i] = dt;
+  return f;
+}
+
+// H: observe the first four state components
+const MEASUREMENT: Matrix = identity(2 * NDIM).slice(0, NDIM);
+const MEASUREMENT_T = transpose(MEASUREMENT);
+
+export function bboxToMeasurement(bbox: [number, number, number, number]): number[] {
+  const [x, y, w, h] = bbox;
+  const height = Math.max(h, 1);
+  return [x + w / 2, y + h / 2, w / height, height];
+}
+
+export function stateToBbox(mean: number[]): [number, number, number, number] {
+  const [cx, cy, a, h] = mean;
+  const height = Math.max(h, 1);
+  const width = Math.max(a * height, 1);
+  return [cx - width / 2, cy - height / 2, width, height];
+}
+
+export function initiate(bbox: [number, number, number, number]): KalmanState {
+  const z = bboxToMeasurement(bbox);
+  const h = z[3];
+  const std = [
+    2 * STD_WEIGHT_POSITION * h,
+    2 * STD_WEIGHT_POSITION * h,
+    1e-2,
+    2 * STD_WEIGHT_POSITION * h,
+    10 * STD_WEIGHT_VELOCITY * h,
+    10 * STD_WEIGHT_VELOCITY * h,
+    1e-5,
+    10 * STD_WEIGHT_VELOCITY * h,
+  ];
+  return {
+    mean: [...z, 0, 0, 0, 0],
+    covariance: diag(std.map(s => s * s)),
+  };
+}
+
+/** Advances `state` by `dt` seconds. */
+export function predict(state: KalmanState, dt = NOMINAL_STEP_S): KalmanState {
+  const h = state.mean[3];
+  // Random-walk noise: variance grows linearly with elapsed time
+  const scale = Math.sqrt(dt / NOMINAL_STEP_S);
+  const std = [
+    STD_WEIGHT_POSITION * h,
+    STD_WEIGHT_POSITION * h,
+    1e-2,
+    STD_WEIGHT_POSITION * h,
+    STD_WEIGHT_VELOCITY * h,
+    STD_WEIGHT_VELOCITY * h,
+    1e-5,
+    STD_WEIGHT_VELOCITY * h,
+  ];
+  const processNoise = diag(std.map(s => (s * scale) ** 2));
+  const f = motion(dt);
+  return {
+    mean: multiplyVector(f, state.mean),
+    covariance: add(multiply(multiply(f, state.covariance), transpose(f)), processNoise),
+  };
+}
+
+export function correct(state: KalmanState, bbox: [number, number, number, number]): KalmanState {
+  const z = bboxToMeasurement(bbox);
+  const h = state.mean[3];
+  const std = [STD_WEIGHT_POSITION * h, STD_WEIGHT_POSITION * h, 1e-1, STD_WEIGHT_POSITION * h];
+  const measurementNoise = diag(std.map(s => s * s));
+
+  const projectedMean = multiplyVector(MEASUREMENT, state.mean);
+  const pht = multiply(state.covariance, MEASUREMENT_T);
+  const innovationCov = add(multiply(MEASUREMENT, pht), measurementNoise);
+  const gain = multiply(pht, invert(innovationCov));
+
+  const innovation = z.map((v, i) => v - projectedMean[i]);
+  const mean = state.mean.map((v, i) => v + gain[i].reduce((sum, k, j) => sum + k * innovation[j], 0));
+  const covariance = subtract(state.covariance, multiply(multiply(gain, innovationCov), transpose(gain)));
+  return { mean, covariance };
+}
+
+/** One-sigma uncertainty of the box centre in pixels. */
+export function positionStd(state: KalmanState): number {
+  return Math.sqrt(Math.max(0, state.covariance[0][0]) + Math.max(0, state.covariance[1][1]));
+}
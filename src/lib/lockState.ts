@@ -0,0 +1,104 @@
+// Per-subject lock state machine: locked → coasting → searching → lost (and back on reacquisition)
+
+import { TrackedPerson } from './tracker';
+
+export type LockState = 'locked' | 'coasting' | 'searching' | 'lost';
+
+/** What happens to a focused subject once it is lost. */
+export type LossBehavior = 'hold' | 'auto' | 'clear';
+
+export const LOSS_BEHAVIORS: { id: LossBehavior; label: string }[] = [
+  { id: 'hold', label: 'Hold region' },
+  { id: 'auto', label: 'Auto-focus' },
+  { id: 'clear', label: 'Clear blur' },
+];
+
+export interface SubjectLock {
+  id: number;
+  state: LockState;
+  lastSeen: TrackedPerson; // latest tracker output, kept to hold the region after the track is gone
+  missingSince: number; // ms; when the track disappeared from the tracker
+}
+
+/** Immutable view of a lock, for display. */
+export interface LockStatus {
+  state: LockState;
+  class: string;
+}
+
+export interface LockTransition {
+  id: number;
+  from: LockState;
+  to: LockState;
+}
+
+const SEARCH_TIMEOUT_MS = 3000;
+
+/**
+ * Follows the focused subjects through the tracker's output. A subject whose
+ * track is deleted is `searching` (re-identification can still give it back
+ * its ID) until `searchTimeoutMs` passes, then `lost`.
+ */
+export class LockMonitor {
+  private locks = new Map<number, SubjectLock>();
+
+  constructor(private searchTimeoutMs = SEARCH_TIMEOUT_MS) {}
+
+  update(persons: TrackedPerson[], focusIds: ReadonlySet<number>, now: number): LockTransition[] {
+    const transitions: LockTransition[] = [];
+    const setState = (lock: SubjectLock, to: LockState) => {
+      if (lock.state === to) return;
+      transitions.push({ id: lock.id, from: lock.state, to });
+      lock.state = to;
+    };
+
+    for (const id of this.locks.keys()) {
+      if (!focusIds.has(id)) this.locks.delete(id);
+    }
+
+    for (const id of focusIds) {
+      const person = persons.find(p => p.id === id);
+      const lock = this.locks.get(id);
+      if (person) {
+        const state = person.state === 'coasting' ? 'coasting' : 'locked';
+        if (lock) {
+          lock.lastSeen = person;
+          setState(lock, state);
+        } else {
+          this.locks.set(id, { id, state, lastSeen: person, missingSince: 0 });
+        }
+      } else if (lock) {
+        if (lock.state === 'locked' || lock.state === 'coasting') {
+          lock.missingSince = now;
+          setState(lock, 'searching');
+        } else if (lock.state === 'searching' && now - lock.missingSince >= this.searchTimeoutMs) {
+          setState(lock, 'lost');
+        }
+      }
+    }
+    return transitions;
+  }
+
+  get(id: number): SubjectLock | undefined {
+    return this.locks.get(id);
+  }
+
+  statuses(): Map<number, LockStatus> {
+    return new Map([...this.locks.values()].map(l => [l.id, { state: l.state, class: l.lastSeen.class }]));
+  }
+
+  /** Last-seen snapshots of subjects whose tracks are gone (searching or lost). */
+  missing(): TrackedPerson[] {
+    return [...this.locks.values()]
+      .filter(l => l.state === 'searching' || l.state === 'lost')
+      .map(l => l.lastSeen);
+  }
+
+  forget(id: number) {
+    this.locks.delete(id);
+  }
+
+  reset() {
+    this.locks.clear();
+  }
+}
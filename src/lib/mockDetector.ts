@@ -0,0 +1,25 @@
+import { Detection } from './tracker';
+import { Detector, DetectorInput, inputSize } from './detector';
+
+// Synthetic people walking back and forth; for UI work and testing without a model or a real scene
+export class MockDetector implements Detector {
+  readonly label = 'Mock';
+
+  constructor(private count = 3) {}
+
+  async detect(input: DetectorInput): Promise<Detection[]> {
+    const { width, height } = inputSize(input);
+    const t = performance.now() / 1000;
+    const detections: Detection[] = [];
+    for (let i = 0; i < this.count; i++) {
+      const h = height * (0.45 + 0.1 * i);
+      const w = h * 0.4;
+      const cx = width * (0.5 + 0.35 * Math.sin(t * (0.4 + 0.15 * i) + i * 2.1));
+      const y = height - h - height * 0.05 * i;
+      detections.push({ id: i, bbox: [cx - w / 2, y, w, h], score: 0.9 - 0.1 * i, class: 'person' });
+    }
+    return detections;
+  }
+
+  dispose() {}
+}
@@ -0,0 +1,127 @@
+// CLEAR-MOT and identity metrics for scoring tracker output against ground truth
+
+import { hungarianAssign } from './assignment';
+import { iou } from './tracker';
+
+export interface MotObject {
+  id: number;
+  bbox: [number, number, number, number]; // x, y, width, height
+}
+
+/** Ground-truth and tracker output for one frame. */
+export interface MotFrame {
+  gt: MotObject[];
+  hyp: MotObject[];
+}
+
+export interface MotMetrics {
+  frames: number;
+  gtCount: number; // ground-truth boxes over all frames
+  hypCount: number; // tracker boxes over all frames
+  matches: number;
+  misses: number; // false negatives
+  falsePositives: number;
+  idSwitches: number; // a ground-truth object matched to a different track than before
+  fragmentations: number; // a ground-truth trajectory resumed after being untracked
+  mota: number; // 1 - (misses + FP + ID switches) / gtCount
+  motp: number; // mean IoU of matches
+  idf1: number; // F1 of identity-consistent matches (global gt ↔ track mapping)
+}
+
+/**
+ * Scores `frames` with a box counting as a match at `iouThreshold` or above.
+ * Per frame, correspondences from the previous frame are kept while still
+ * valid (as CLEAR-MOT prescribes); the rest are matched by maximum IoU.
+ */
+export function evaluateMot(frames: MotFrame[], iouThreshold = 0.5): MotMetrics {
+  let gtCount = 0;
+  let hypCount = 0;
+  let matches = 0;
+  let iouSum = 0;
+  let idSwitches = 0;
+  let fragmentations = 0;
+
+  const lastMatch = new Map<number, number>(); // gt id → hyp id of its latest match
+  const wasTracked = new Map<number, boolean>(); // gt id → matched in the last frame it appeared (once ever matched)
+  const pairCounts = new Map<number, Map<number, number>>(); // gt id → hyp id → frames matched at threshold
+  const gtFrames = new Map<number, number>();
+  const hypFrames = new Map<number, number>();
+
+  for (const { gt, hyp } of frames) {
+    gtCount += gt.length;
+    hypCount += hyp.length;
+
+    const overlaps = gt.map(g => hyp.map(h => iou(g.bbox, h.bbox)));
+
+    // Identity counts for IDF1 are independent of the per-frame matching
+    for (let gi = 0; gi < gt.length; gi++) {
+      gtFrames.set(gt[gi].id, (gtFrames.get(gt[gi].id) ?? 0) + 1);
+      for (let hi = 0; hi < hyp.length; hi++) {
+        if (overlaps[gi][hi] < iouThreshold) continue;
+        const row = pairCounts.get(gt[gi].id) ?? new Map<number, number>();
+        row.set(hyp[hi].id, (row.get(hyp[hi].id) ?? 0) + 1);
+        pairCounts.set(gt[gi].id, row);
+      }
+    }
+    for (const h of hyp) hypFrames.set(h.id, (hypFrames.get(h.id) ?? 0) + 1);
+
+    // Keep last frame's correspondences that still overlap enough
+    const gtMatched = new Map<number, number>(); // gt index → hyp index
+    const hypUsed = new Set<number>();
+    for (let gi = 0; gi < gt.length; gi++) {
+      const prev = lastMatch.get(gt[gi].id);
+      const hi = hyp.findIndex(h => h.id === prev);
+      if (hi >= 0 && !hypUsed.has(hi) && overlaps[gi][hi] >= iouThreshold) {
+        gtMatched.set(gi, hi);
+        hypUsed.add(hi);
+      }
+    }
+
+    // Match the rest by maximum total IoU
+    const freeGt = gt.map((_, i) => i).filter(i => !gtMatched.has(i));
+    const freeHyp = hyp.map((_, i) => i).filter(i => !hypUsed.has(i));
+    const scores = freeGt.map(gi => freeHyp.map(hi => (overlaps[gi][hi] >= iouThreshold ? overlaps[gi][hi] : 0)));
+    for (const m of hungarianAssign(scores, 0)) {
+      gtMatched.set(freeGt[m.row], freeHyp[m.col]);
+    }
+
+    for (let gi = 0; gi < gt.length; gi++) {
+      const id = gt[gi].id;
+      const hi = gtMatched.get(gi);
+      if (hi === undefined) {
+        // Only an interruption once the object has been tracked at all
+        if (wasTracked.has(id)) wasTracked.set(id, false);
+        continue;
+      }
+      matches++;
+      iouSum += overlaps[gi][hi];
+      const prev = lastMatch.get(id);
+      if (prev !== undefined && prev !== hyp[hi].id) idSwitches++;
+      if (wasTracked.get(id) === false) fragmentations++;
+      lastMatch.set(id, hyp[hi].id);
+      wasTracked.set(id, true);
+    }
+  }
+
+  // IDF1: one-to-one gt ↔ track mapping maximising identity true positives
+  const gtIds = [...gtFrames.keys()];
+  const hypIds = [...hypFrames.keys()];
+  const counts = gtIds.map(g => hypIds.map(h => pairCounts.get(g)?.get(h) ?? 0));
+  const idtp = hungarianAssign(counts, 0).reduce((sum, m) => sum + m.score, 0);
+
+  const misses = gtCount - matches;
+  const falsePositives = hypCount - matches;
+  return {
+    frames: frames.length,
+    gtCount,
+    hypCount,
+    matches,
+    misses,
+    falsePositives,
+    idSwitches,
+    fragmentations,
+    mota: gtCount > 0 ? 1 - (misses + falsePositives + idSwitches) / gtCount : 0,
+    motp: matches > 0 ? iouSum / matches : 0,
+    idf1: gtCount + hypCount > 0 ? (2 * idtp) / (gtCount + hypCount) : 0,
+  };
+}
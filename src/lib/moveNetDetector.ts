@@ -0,0 +1,40 @@
+import * as poseDetection from '@tensorflow-models/pose-detection';
+import { Detection } from './tracker';
+import { Detector, DetectorInput, inputSize } from './detector';
+
+const MAX_POSES = 6;
+// Low on purpose: the tracker uses weak boxes to hold on to partially occluded people
+const MIN_SCORE = 0.1;
+
+// Person boxes from MoveNet MultiPose (Lightning)
+export class MoveNetDetector implements Detector {
+  readonly label = 'MoveNet MultiPose Lightning';
+
+  private constructor(private model: poseDetection.PoseDetector) {}
+
+  static async load(): Promise<MoveNetDetector> {
+    const model = await poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, {
+      modelType: poseDetection.movenet.modelType.MULTIPOSE_LIGHTNING,
+      enableTracking: false,
+    });
+    return new MoveNetDetector(model);
+  }
+
+  async detect(input: DetectorInput): Promise<Detection[]> {
+    const { width, height } = inputSize(input);
+    const poses = await this.model.estimatePoses(input, { maxPoses: MAX_POSES });
+    return poses
+      .filter(p => p.box && (p.score ?? 0) >= MIN_SCORE)
+      .map((p, i) => ({
+        id: i,
+        // MultiPose boxes are normalised to the input size
+        bbox: [p.box.xMin * width, p.box.yMin * height, p.box.width * width, p.box.height * height],
+        score: p.score ?? 0,
+        class: 'person',
+      }));
+  }
+
+  dispose() {
+    this.model.dispose();
+  }
+}
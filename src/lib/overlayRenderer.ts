@@ -0,0 +1,211 @@
+import { TrackedPerson } from "./tracker";
+
+// Tracking annotations drawn on top of the rendered (blurred) frame
+
+export interface OverlayOptions {
+  boxes: boolean; // bbox outline per track
+  ids: boolean; // class and track ID label
+  confidence: boolean; // detector score
+  state: boolean; // age / coasting state
+  trails: boolean; // recent centre positions
+  reticle: boolean; // targeting reticle on locked subjects
+}
+
+export const DEFAULT_OVERLAY_OPTIONS: OverlayOptions = {
+  boxes: true,
+  ids: true,
+  confidence: false,
+  state: false,
+  trails: false,
+  reticle: true,
+};
+
+export const OVERLAY_LABELS: Record<keyof OverlayOptions, string> = {
+  boxes: "Boxes",
+  ids: "IDs",
+  confidence: "Conf",
+  state: "State",
+  trails: "Trails",
+  reticle: "Reticle",
+};
+
+const TRAIL_LENGTH = 30; // tracker updates of history per track
+
+/** Recent centre positions per track, in video pixels. */
+export class TrailHistory {
+  private points = new Map<number, [number, number][]>();
+
+  constructor(private maxLength = TRAIL_LENGTH) {}
+
+  update(persons: TrackedPerson[]) {
+    const alive = new Set<number>();
+    for (const p of persons) {
+      alive.add(p.id);
+      const trail = this.points.get(p.id) ?? [];
+      trail.push([p.bbox[0] + p.bbox[2] / 2, p.bbox[1] + p.bbox[3] / 2]);
+      if (trail.length > this.maxLength) trail.shift();
+      this.points.set(p.id, trail);
+    }
+    for (const id of this.points.keys()) {
+      if (!alive.has(id)) this.points.delete(id);
+    }
+  }
+
+  get(id: number): readonly [number, number][] {
+    return this.points.get(id) ?? [];
+  }
+
+  clear() {
+    this.points.clear();
+  }
+}
+
+const colorCache = new Map<string, string>();
+
+/** Resolves a theme colour variable (e.g. "--primary") to a canvas colour string. */
+export function themeColor(variable: string): string {
+  let color = colorCache.get(variable);
+  if (!color) {
+    const value = getComputedStyle(document.documentElement).getPropertyValue(variable).trim();
+    color = value ? `hsl(${value})` : "#fff";
+    colorCache.set(variable, color);
+  }
+  return color;
+}
+
+function trackLabel(person: TrackedPerson, options: OverlayOptions): string {
+  const parts: string[] = [];
+  if (options.ids) parts.push(`${person.class} #${person.id}`);
+  if (options.confidence) parts.push(`${Math.round(person.score * 100)}%`);
+  if (options.state) parts.push(person.state === "coasting" ? `coast ${person.age}` : "tracked");
+  return parts.join(" · ");
+}
+
+function drawLabel(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, color: string, px: number) {
+  ctx.font = `${11 * px}px ui-monospace, monospace`;
+  const padX = 4 * px;
+  const h = 16 * px;
+  const w = ctx.measureText(text).width + padX * 2;
+  // Above the box, or inside it when the box touches the top edge
+  const top = y - h >= 0 ? y - h : y;
+  ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+  ctx.fillRect(x, top, w, h);
+  ctx.fillStyle = color;
+  ctx.textBaseline = "middle";
+  ctx.fillText(text, x + padX, top + h / 2);
+}
+
+function drawTrail(
+  ctx: CanvasRenderingContext2D,
+  trail: readonly [number, number][],
+  scaleX: number,
+  scaleY: number,
+  color: string,
+  px: number
+) {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2 * px;
+  ctx.lineCap = "round";
+  // Fade out towards the oldest point
+  for (let i = 1; i < trail.length; i++) {
+    ctx.globalAlpha = i / trail.length;
+    ctx.beginPath();
+    ctx.moveTo(trail[i - 1][0] * scaleX, trail[i - 1][1] * scaleY);
+    ctx.lineTo(trail[i][0] * scaleX, trail[i][1] * scaleY);
+    ctx.stroke();
+  }
+  ctx.globalAlpha = 1;
+}
+
+// Corner brackets around the box plus a pulsing centre ring
+function drawReticle(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  color: string,
+  px: number,
+  now: number
+) {
+  const arm = Math.min(w, h) * 0.2;
+  const gap = 4 * px;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 3 * px;
+  ctx.beginPath();
+  for (const [cx, cy, dx, dy] of [
+    [x - gap, y - gap, 1, 1],
+    [x + w + gap, y - gap, -1, 1],
+    [x - gap, y + h + gap, 1, -1],
+    [x + w + gap, y + h + gap, -1, -1],
+  ]) {
+    ctx.moveTo(cx + dx * arm, cy);
+    ctx.lineTo(cx, cy);
+    ctx.lineTo(cx, cy + dy * arm);
+  }
+  ctx.stroke();
+
+  const pulse = 0.5 + 0.5 * Math.sin(now / 250);
+  const r = (6 + 3 * pulse) * px;
+  ctx.lineWidth = 1.5 * px;
+  ctx.globalAlpha = 0.6 + 0.4 * pulse;
+  ctx.beginPath();
+  ctx.arc(x + w / 2, y + h / 2, r, 0, Math.PI * 2);
+  ctx.moveTo(x + w / 2 - r * 1.8, y + h / 2);
+  ctx.lineTo(x + w / 2 - r * 0.6, y + h / 2);
+  ctx.moveTo(x + w / 2 + r * 0.6, y + h / 2);
+  ctx.lineTo(x + w / 2 + r * 1.8, y + h / 2);
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+}
+
+/**
+ * Draws the enabled annotations for every track. Locked tracks use their
+ * colour from `lockedColors`; the rest a neutral one. Coasting tracks are dashed.
+ */
+export function drawTrackingOverlay(
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  persons: TrackedPerson[],
+  lockedColors: ReadonlyMap<number, string>,
+  trails: TrailHistory | null,
+  options: OverlayOptions = DEFAULT_OVERLAY_OPTIONS,
+  now: number = performance.now()
+) {
+  const VW = video.videoWidth;
+  const VH = video.videoHeight;
+  if (!VW || !VH) return;
+
+  const scaleX = canvas.width / VW;
+  const scaleY = canvas.height / VH;
+  // Canvas px per CSS px, so strokes and text keep their on-screen size
+  const px = canvas.clientWidth > 0 ? canvas.width / canvas.clientWidth : 1;
+  const neutral = "rgba(255, 255, 255, 0.75)";
+
+  ctx.save();
+  for (const person of persons) {
+    const color = lockedColors.get(person.id) ?? neutral;
+    const [bx, by, bw, bh] = person.bbox;
+    const x = bx * scaleX;
+    const y = by * scaleY;
+    const w = bw * scaleX;
+    const h = bh * scaleY;
+
+    if (options.trails && trails) drawTrail(ctx, trails.get(person.id), scaleX, scaleY, color, px);
+
+    if (options.boxes) {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = (lockedColors.has(person.id) ? 2 : 1.5) * px;
+      ctx.setLineDash(person.state === "coasting" ? [6 * px, 4 * px] : []);
+      ctx.strokeRect(x, y, w, h);
+      ctx.setLineDash([]);
+    }
+
+    if (options.reticle && lockedColors.has(person.id)) drawReticle(ctx, x, y, w, h, color, px, now);
+
+    const label = trackLabel(person, options);
+    if (label) drawLabel(ctx, label, x, y, color, px);
+  }
+  ctx.restore();
+}
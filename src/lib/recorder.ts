@@ -0,0 +1,78 @@
+// Real-time recording of the rendered canvas (plus optional audio) via MediaRecorder
+
+export type RecordingState = 'inactive' | 'recording' | 'paused';
+
+export function pickWebmMimeType(withAudio = false): string | undefined {
+  const candidates = withAudio
+    ? ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm']
+    : ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+  return candidates.find(t => MediaRecorder.isTypeSupported(t));
+}
+
+export class CanvasRecorder {
+  private recorder: MediaRecorder | null = null;
+  private stream: MediaStream | null = null;
+  private chunks: Blob[] = [];
+  private startedAt = 0;
+  private pausedAt = 0;
+  private pausedTotal = 0;
+
+  get state(): RecordingState {
+    return this.recorder?.state ?? 'inactive';
+  }
+
+  /** Starts capturing `canvas`; audio tracks of `audio` are muxed in but not owned (never stopped here). */
+  start(canvas: HTMLCanvasElement, audio: MediaStream | null = null, fps = 30) {
+    if (this.recorder) return;
+    const video = canvas.captureStream(fps);
+    const tracks = [...video.getVideoTracks(), ...(audio?.getAudioTracks() ?? [])];
+    this.stream = new MediaStream(tracks);
+    const hasAudio = this.stream.getAudioTracks().length > 0;
+
+    this.chunks = [];
+    this.recorder = new MediaRecorder(this.stream, {
+      mimeType: pickWebmMimeType(hasAudio),
+      videoBitsPerSecond: 6_000_000,
+    });
+    this.recorder.ondataavailable = e => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    this.recorder.start(1000);
+    this.startedAt = performance.now();
+    this.pausedTotal = 0;
+  }
+
+  pause() {
+    if (this.recorder?.state !== 'recording') return;
+    this.recorder.pause();
+    this.pausedAt = performance.now();
+  }
+
+  resume() {
+    if (this.recorder?.state !== 'paused') return;
+    this.recorder.resume();
+    this.pausedTotal += performance.now() - this.pausedAt;
+  }
+
+  /** Recorded duration, excluding pauses. */
+  elapsedMs(now = performance.now()): number {
+    if (!this.recorder) return 0;
+    const end = this.recorder.state === 'paused' ? this.pausedAt : now;
+    return end - this.startedAt - this.pausedTotal;
+  }
+
+  stop(): Promise<Blob | null> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.resolve(null);
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        // Only the canvas capture tracks belong to us
+        this.stream?.getVideoTracks().forEach(t => t.stop());
+        this.stream = null;
+        this.recorder = null;
+        resolve(new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' }));
+      };
+      recorder.stop();
+    });
+  }
+}
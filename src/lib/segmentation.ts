@@ -0,0 +1,84 @@
+// Person segmentation (BodyPix) → per-pixel alpha mask for the focused track
+
+import type { BodyPix } from '@tensorflow-models/body-pix';
+
+export interface PersonSegmentation {
+  width: number;
+  height: number;
+  data: Uint8Array; // 1 = person pixel, 0 = background
+}
+
+let modelPromise: Promise<BodyPix> | null = null;
+
+/** Lazily loads BodyPix; a failed load is not cached so it can be retried. */
+export function loadSegmenter(): Promise<BodyPix> {
+  if (!modelPromise) {
+    modelPromise = (async () => {
+      const bodyPix = await import('@tensorflow-models/body-pix');
+      return bodyPix.load({
+        architecture: 'MobileNetV1',
+        outputStride: 16,
+        multiplier: 0.5,
+        quantBytes: 2,
+      });
+    })();
+    modelPromise.catch(() => {
+      modelPromise = null;
+    });
+  }
+  return modelPromise;
+}
+
+export async function segmentPersons(
+  model: BodyPix,
+  video: HTMLVideoElement
+): Promise<PersonSegmentation | null> {
+  const seg = await model.segmentPerson(video, {
+    internalResolution: 'medium',
+    segmentationThreshold: 0.6,
+  });
+  if (!seg.width || !seg.height) return null;
+  return { width: seg.width, height: seg.height, data: seg.data };
+}
+
+/**
+ * Paints the alpha mask of the person inside `bbox` (video pixel coordinates)
+ * into `maskCanvas`, sized to the segmentation. Person pixels belonging to
+ * anyone outside the (slightly padded) box are left transparent.
+ */
+export function buildTrackMask(
+  seg: PersonSegmentation,
+  bbox: [number, number, number, number],
+  videoWidth: number,
+  videoHeight: number,
+  maskCanvas: HTMLCanvasElement
+): boolean {
+  const { width, height, data } = seg;
+  if (maskCanvas.width !== width) maskCanvas.width = width;
+  if (maskCanvas.height !== height) maskCanvas.height = height;
+  const ctx = maskCanvas.getContext('2d');
+  if (!ctx) return false;
+
+  const sx = width / videoWidth;
+  const sy = height / videoHeight;
+  const [bx, by, bw, bh] = bbox;
+  const pad = 0.1;
+  const x0 = Math.max(0, Math.floor((bx - bw * pad) * sx));
+  const y0 = Math.max(0, Math.floor((by - bh * pad) * sy));
+  const x1 = Math.min(width, Math.ceil((bx + bw * (1 + pad)) * sx));
+  const y1 = Math.min(height, Math.ceil((by + bh * (1 + pad)) * sy));
+
+  const image = ctx.createImageData(width, height);
+  let any = false;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = y * width + x;
+      if (data[i]) {
+        image.data[i * 4 + 3] = 255;
+        any = true;
+      }
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  return any;
+}
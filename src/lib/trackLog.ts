@@ -0,0 +1,151 @@
+// Per-frame track logs, exported as MOTChallenge CSV / JSON, and MOT detection files as a detector replacement
+
+import { Detection, TrackedPerson } from './tracker';
+
+export interface LoggedTrack {
+  id: number;
+  class: string;
+  bbox: [number, number, number, number];
+  score: number;
+}
+
+export interface LoggedFrame {
+  frame: number; // 1-based, as in MOTChallenge
+  timestamp: number; // media time in ms
+  tracks: LoggedTrack[];
+}
+
+export interface TrackLogJson {
+  format: 'smartfocus-tracks';
+  version: 1;
+  frames: LoggedFrame[];
+}
+
+/**
+ * Accumulates tracker output while recording, keyed by the media frame at the update's
+ * timestamp so logs line up with the video whatever the detection cadence.
+ */
+export class TrackLogger {
+  private frames = new Map<number, LoggedFrame>();
+  private recording = false;
+
+  constructor(private fps = 30) {}
+
+  /** Frame rate used to number frames recorded from now on. */
+  setFps(fps: number) {
+    this.fps = fps;
+  }
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  get frameCount(): number {
+    return this.frames.size;
+  }
+
+  start() {
+    this.frames = new Map();
+    this.recording = true;
+  }
+
+  stop() {
+    this.recording = false;
+  }
+
+  /** Logs `persons` at media time `timestamp` (ms); a later update for the same frame replaces it. */
+  record(persons: TrackedPerson[], timestamp: number) {
+    if (!this.recording) return;
+    // Same numbering as RecordedDetections.frameAt, so a log replays onto the frames it came from
+    const frame = Math.floor((timestamp / 1000) * this.fps + 1e-6) + 1;
+    this.frames.set(frame, {
+      frame,
+      timestamp,
+      tracks: persons.map(p => ({ id: p.id, class: p.class, bbox: [...p.bbox], score: p.score })),
+    });
+  }
+
+  getFrames(): readonly LoggedFrame[] {
+    return [...this.frames.values()].sort((a, b) => a.frame - b.frame);
+  }
+}
+
+const round = (v: number) => Math.round(v * 100) / 100;
+
+/** MOTChallenge rows: `frame,id,bb_left,bb_top,bb_width,bb_height,conf,x,y,z` (world coordinates unused, -1). */
+export function toMotCsv(frames: readonly LoggedFrame[]): string {
+  const rows: string[] = [];
+  for (const { frame, tracks } of frames) {
+    for (const t of tracks) {
+      rows.push([frame, t.id, ...t.bbox.map(round), round(t.score), -1, -1, -1].join(','));
+    }
+  }
+  return rows.join('\n') + '\n';
+}
+
+export function toTrackLogJson(frames: readonly LoggedFrame[]): string {
+  const log: TrackLogJson = { format: 'smartfocus-tracks', version: 1, frames: [...frames] };
+  return JSON.stringify(log);
+}
+
+/**
+ * Parses detections keyed by 1-based frame number, from either a MOTChallenge
+ * text file (`det.txt` / `gt.txt`, comma or whitespace separated) or this
+ * app's JSON track log. MOT files carry no class, so boxes are people.
+ */
+export function parseDetections(text: string): Map<number, Detection[]> {
+  const trimmed = text.trim();
+  return trimmed.startsWith('{') ? parseTrackLogJson(trimmed) : parseMotText(trimmed);
+}
+
+function parseMotText(text: string): Map<number, Detection[]> {
+  const frames = new Map<number, Detection[]>();
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) continue;
+    const values = line.split(/[\s,]+/).map(Number);
+    if (values.length < 7 || values.slice(0, 7).some(v => !Number.isFinite(v))) {
+      throw new Error(`Invalid MOT row on line ${i + 1}`);
+    }
+    const [frame, , x, y, w, h, conf] = values;
+    const list = frames.get(frame) ?? [];
+    list.push({ id: list.length, bbox: [x, y, w, h], score: conf, class: 'person' });
+    frames.set(frame, list);
+  }
+  return frames;
+}
+
+function parseTrackLogJson(text: string): Map<number, Detection[]> {
+  const log = JSON.parse(text) as Partial<TrackLogJson>;
+  if (log.format !== 'smartfocus-tracks' || !Array.isArray(log.frames)) {
+    throw new Error('Not a track log JSON file');
+  }
+  const frames = new Map<number, Detection[]>();
+  for (const f of log.frames) {
+    frames.set(f.frame, f.tracks.map((t, i) => ({ id: i, bbox: t.bbox, score: t.score, class: t.class })));
+  }
+  return frames;
+}
+
+/** Serves pre-recorded detections by media time, in place of a live detector. */
+export class RecordedDetections {
+  constructor(private frames: Map<number, Detection[]>, readonly fps = 30) {}
+
+  /** 1-based frame number shown at `timeSeconds`. */
+  frameAt(timeSeconds: number): number {
+    return Math.floor(timeSeconds * this.fps + 1e-6) + 1;
+  }
+
+  detectionsAt(timeSeconds: number): Detection[] {
+    return this.frames.get(this.frameAt(timeSeconds)) ?? [];
+  }
+
+  withFps(fps: number): RecordedDetections {
+    return new RecordedDetections(this.frames, fps);
+  }
+
+  get frameCount(): number {
+    return this.frames.size;
+  }
+}
@@ -1,21 +1,88 @@
-// Simple IoU-based person tracker
+// Simple IoU-based multi-object tracker (people by default; any COCO class on request)
+
+import { assign } from './assignment';
+import { DEFAULT_TRACKER_CONFIG, TrackerConfig } from './trackerConfig';
+import { KalmanState, NOMINAL_STEP_S, correct, initiate, positionStd, predict, stateToBbox } from './kalman';
+import { blendEmbedding, embeddingSimilarity } from './appearance';
 
 export interface Detection {
   id: number;
   bbox: [number, number, number, number]; // x, y, width, height
   score: number;
   class: string;
+  embedding?: number[]; // appearance descriptor of the bbox crop
 }
 
+/**
+ * SORT/DeepSORT-style lifecycle: a new track is `tentative` until matched
+ * `minHits` times, `confirmed` while matched, `coasting` on its prediction
+ * while unmatched, and `deleted` once a tentative track misses or a coasting
+ * one exceeds its max age. Only non-tentative tracks are exposed.
+ */
+export type TrackState = 'tentative' | 'confirmed' | 'coasting' | 'deleted';
+
 export interface TrackedPerson {
   id: number;
+  class: string; // detector label, e.g. 'person', 'dog'
   bbox: [number, number, number, number];
   score: number;
-  age: number; // frames since last seen
-  velocity: [number, number]; // estimated velocity for prediction
+  state: TrackState;
+  hits: number; // detections matched over the track's life
+  age: number; // updates since last matched
+  coastSeconds: number; // time since last matched
+  velocity: [number, number]; // centre velocity from the Kalman state (px per second)
+  predicted: KalmanState; // prior for the current update
+  corrected: KalmanState; // posterior after the matched detection (equals `predicted` while coasting)
+  embedding?: number[]; // running appearance descriptor
+}
+
+// A deleted track kept around so the same person can get their ID back
+interface LostTrack {
+  id: number;
+  class: string;
+  embedding: number[];
+  lostAt: number; // tracker time (s) when the track was deleted
+}
+
+// Tuning that depends on what is being tracked; classes not listed use the defaults
+export interface ClassTrackerParams {
+  maxAgeSeconds: number; // coast time before losing track, at the default tracker maxAgeSeconds
+  minScore: number; // detections below this can't start tracks and only match in the low-score pass
+  distanceScale: number; // centre-distance tolerance, in box sizes
+}
+
+export const DEFAULT_CLASS_PARAMS: ClassTrackerParams = {
+  maxAgeSeconds: 0.5,
+  minScore: 0.4,
+  distanceScale: 2,
+};
+
+export const CLASS_TRACKER_PARAMS: Record<string, Partial<ClassTrackerParams>> = {
+  person: { minScore: 0.3 },
+  // Small, fast and often missed: drop quickly, search wide
+  'sports ball': { maxAgeSeconds: 0.15, minScore: 0.3, distanceScale: 4 },
+  frisbee: { maxAgeSeconds: 0.15, minScore: 0.3, distanceScale: 4 },
+  // Animals change pace abruptly
+  dog: { distanceScale: 3 },
+  cat: { distanceScale: 3 },
+  // Vehicles move fast but are often occluded by each other
+  car: { maxAgeSeconds: 1, distanceScale: 3 },
+  bus: { maxAgeSeconds: 1, distanceScale: 3 },
+  truck: { maxAgeSeconds: 1, distanceScale: 3 },
+  motorcycle: { maxAgeSeconds: 0.7, distanceScale: 3 },
+  bicycle: { maxAgeSeconds: 0.7, distanceScale: 3 },
+};
+
+/**
+ * Parameters for `cls`: its own overrides on top of the defaults. Class max ages are relative
+ * to the default one, so a tuned `maxAgeSeconds` scales every class rather than only unlisted ones.
+ */
+export function classTrackerParams(cls: string, maxAgeSeconds = DEFAULT_CLASS_PARAMS.maxAgeSeconds): ClassTrackerParams {
+  const params = { ...DEFAULT_CLASS_PARAMS, ...CLASS_TRACKER_PARAMS[cls] };
+  return { ...params, maxAgeSeconds: (params.maxAgeSeconds * maxAgeSeconds) / DEFAULT_CLASS_PARAMS.maxAgeSeconds };
 }
 
-function iou(a: [number, number, number, number], b: [number, number, number, number]): number {
+export function iou(a: [number, number, number, number], b: [number, number, number, number]): number {
   const x1 = Math.max(a[0], b[0]);
   const y1 = Math.max(a[1], b[1]);
   const x2 = Math.min(a[0] + a[2], b[0] + b[2]);
@@ -37,112 +104,294 @@ function centerDistance(a: [number, number, number, number], b: [number, number,
   return Math.sqrt((cx1 - cx2) ** 2 + (cy1 - cy2) ** 2);
 }
 
+// Longest gap the motion model extrapolates across in one update
+const MAX_STEP_S = 1;
+
+// Slack for coast times summed from nominal steps, which don't add up exactly
+const TIME_EPSILON_S = 1e-6;
+
+// Low-score detections must overlap a track's prediction at least this much to extend it
+const LOW_SCORE_MIN_IOU = 0.3;
+
+// Appearance alone may only re-attach a coasting track within this many position sigmas of its prediction
+const REID_GATE_SIGMAS = 3;
+
 export class PersonTracker {
   private tracked: TrackedPerson[] = [];
   private nextId = 1;
-  private readonly iouThreshold = 0.2;
-  private readonly maxAge = 15; // frames before losing track
-
-  update(detections: Detection[]): TrackedPerson[] {
-    const personDetections = detections.filter(d => d.class === 'person');
-
-    if (this.tracked.length === 0) {
-      this.tracked = personDetections.map(d => ({
-        id: this.nextId++,
-        bbox: d.bbox,
-        score: d.score,
-        age: 0,
-        velocity: [0, 0],
-      }));
-      return this.tracked;
-    }
+  private readonly galleryMaxSize = 50;
+  private gallery: LostTrack[] = [];
+  private time = 0; // seconds of updates seen, for coast and re-ID limits
+  private lastTimestamp: number | null = null;
 
-    // Match detections to existing tracks using IoU
-    const matched = new Set<number>();
-    const matchedDetections = new Set<number>();
+  private config: TrackerConfig;
+  private classes: ReadonlySet<string>;
 
-    // Build cost matrix
-    const costs: { trackIdx: number; detIdx: number; score: number }[] = [];
-    for (let ti = 0; ti < this.tracked.length; ti++) {
-      // Predict position using velocity
-      const predicted: [number, number, number, number] = [
-        this.tracked[ti].bbox[0] + this.tracked[ti].velocity[0],
-        this.tracked[ti].bbox[1] + this.tracked[ti].velocity[1],
-        this.tracked[ti].bbox[2],
-        this.tracked[ti].bbox[3],
-      ];
-      for (let di = 0; di < personDetections.length; di++) {
-        const iouScore = iou(predicted, personDetections[di].bbox);
-        const dist = centerDistance(predicted, personDetections[di].bbox);
-        const maxDim = Math.max(predicted[2], predicted[3], 100);
-        const distScore = Math.max(0, 1 - dist / (maxDim * 2));
-        const combinedScore = iouScore * 0.6 + distScore * 0.4;
-        if (combinedScore > 0.1) {
-          costs.push({ trackIdx: ti, detIdx: di, score: combinedScore });
-        }
+  constructor(config: Partial<TrackerConfig> = {}, classes: Iterable<string> = ['person']) {
+    this.config = { ...DEFAULT_TRACKER_CONFIG, ...config };
+    this.classes = new Set(classes);
+  }
+
+  /** Applies new parameters from the next update on; existing tracks are kept. */
+  setConfig(config: Partial<TrackerConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): TrackerConfig {
+    return this.config;
+  }
+
+  private params(cls: string): ClassTrackerParams {
+    return classTrackerParams(cls, this.config.maxAgeSeconds);
+  }
+
+  /** Classes to track; tracks of classes no longer wanted are dropped. */
+  setClasses(classes: Iterable<string>) {
+    this.classes = new Set(classes);
+    this.tracked = this.tracked.filter(t => this.classes.has(t.class));
+  }
+
+  getClasses(): ReadonlySet<string> {
+    return this.classes;
+  }
+
+  /**
+   * Associates one set of detections. `timestamp` (ms) is the capture time of the frame they
+   * came from; without one, updates are assumed to be one video frame apart. Coasting and
+   * re-ID limits are in seconds of that time, whatever the detection cadence.
+   */
+  update(detections: Detection[], timestamp?: number): TrackedPerson[] {
+    // High-score detections are associated first and may start tracks; low-score ones
+    // (ByteTrack) only get a second chance to extend tracks that are left unmatched
+    const wanted = detections.filter(d => this.classes.has(d.class));
+    const candidates = wanted.filter(d => d.score >= this.params(d.class).minScore);
+    const lowScore = this.config.byteTrack
+      ? wanted.filter(d => d.score < this.params(d.class).minScore && d.score >= this.config.lowScore)
+      : [];
+
+    // Predict every track forward by the real time since the last update
+    let elapsed = NOMINAL_STEP_S;
+    if (timestamp !== undefined) {
+      if (this.lastTimestamp !== null && timestamp > this.lastTimestamp) {
+        elapsed = (timestamp - this.lastTimestamp) / 1000;
       }
+      this.lastTimestamp = timestamp;
+    }
+    this.time += elapsed;
+    const dt = Math.min(MAX_STEP_S, elapsed);
+    for (const track of this.tracked) {
+      track.predicted = predict(track.corrected, dt);
     }
 
-    // Greedy matching (sorted by score descending)
-    costs.sort((a, b) => b.score - a.score);
-    for (const { trackIdx, detIdx } of costs) {
-      if (matched.has(trackIdx) || matchedDetections.has(detIdx)) continue;
-      const det = personDetections[detIdx];
-      const track = this.tracked[trackIdx];
-      
-      // Update velocity
-      track.velocity = [
-        det.bbox[0] - track.bbox[0],
-        det.bbox[1] - track.bbox[1],
-      ];
-      track.bbox = det.bbox;
-      track.score = det.score;
-      track.age = 0;
-      
+    const matched = new Set<number>();
+    const matchedDetections = new Set<number>();
+
+    // Optimal assignment (Hungarian) by default; greedy kept for comparison
+    const scores = this.scoreMatrix(this.tracked, candidates);
+    for (const { row: trackIdx, col: detIdx } of assign(scores, this.config.matchThreshold, this.config.assignment)) {
+      this.applyMatch(this.tracked[trackIdx], candidates[detIdx], true);
       matched.add(trackIdx);
       matchedDetections.add(detIdx);
     }
 
-    // Age unmatched tracks
+    // Second pass: leftover confirmed tracks against low-score detections, typically the same
+    // objects partially occluded. Low scores also include clutter, so the boxes must overlap.
+    const remaining = this.tracked
+      .map((_, ti) => ti)
+      .filter(ti => !matched.has(ti) && this.tracked[ti].state !== 'tentative');
+    if (remaining.length > 0 && lowScore.length > 0) {
+      const lowScores = this.scoreMatrix(remaining.map(ti => this.tracked[ti]), lowScore, LOW_SCORE_MIN_IOU);
+      for (const { row, col } of assign(lowScores, this.config.matchThreshold, this.config.assignment)) {
+        // An occluded crop would pollute the appearance, so only the position is updated
+        this.applyMatch(this.tracked[remaining[row]], lowScore[col], false);
+        matched.add(remaining[row]);
+      }
+    }
+
+    // A tentative track that misses is dropped; confirmed ones coast on the prediction
     for (let ti = 0; ti < this.tracked.length; ti++) {
-      if (!matched.has(ti)) {
-        this.tracked[ti].age++;
-        // Predict position
-        this.tracked[ti].bbox[0] += this.tracked[ti].velocity[0];
-        this.tracked[ti].bbox[1] += this.tracked[ti].velocity[1];
+      if (matched.has(ti)) continue;
+      const track = this.tracked[ti];
+      track.age++;
+      track.coastSeconds += elapsed;
+      track.corrected = track.predicted;
+      track.state = track.state === 'tentative' ? 'deleted' : 'coasting';
+    }
+
+    for (const track of this.tracked) {
+      track.bbox = stateToBbox(track.corrected.mean);
+      track.velocity = [track.corrected.mean[4], track.corrected.mean[5]];
+    }
+
+    // Remove old tracks, remembering the appearance of confirmed ones for re-identification
+    for (const track of this.tracked) {
+      if (track.state !== 'coasting') continue;
+      if (track.coastSeconds < this.params(track.class).maxAgeSeconds - TIME_EPSILON_S) continue;
+      track.state = 'deleted';
+      if (track.embedding) {
+        this.gallery.push({ id: track.id, class: track.class, embedding: track.embedding, lostAt: this.time });
       }
     }
+    this.tracked = this.tracked.filter(t => t.state !== 'deleted');
+    this.gallery = this.gallery
+      .filter(g => this.time - g.lostAt <= this.config.galleryMaxAgeSeconds + TIME_EPSILON_S)
+      .slice(-this.galleryMaxSize);
 
-    // Remove old tracks
-    this.tracked = this.tracked.filter(t => t.age < this.maxAge);
-
-    // Add new detections
-    for (let di = 0; di < personDetections.length; di++) {
-      if (!matchedDetections.has(di)) {
-        this.tracked.push({
-          id: this.nextId++,
-          bbox: personDetections[di].bbox,
-          score: personDetections[di].score,
-          age: 0,
-          velocity: [0, 0],
-        });
+    // Add new detections, re-using the ID of a lost or coasting object of the same class that looks the same
+    for (let di = 0; di < candidates.length; di++) {
+      if (!matchedDetections.has(di) && !this.reidentify(candidates[di])) {
+        const confirmed = this.config.minHits <= 1;
+        this.tracked.push(this.createTrack(candidates[di], this.nextId++, confirmed ? 'confirmed' : 'tentative'));
       }
     }
 
-    return this.tracked;
+    return this.getTracked();
+  }
+
+  /**
+   * Match scores (rows = tracks, cols = detections) from IoU with and distance to each
+   * track's predicted box; pairs overlapping less than `minOverlap` score 0.
+   */
+  private scoreMatrix(tracks: TrackedPerson[], detections: Detection[], minOverlap = 0): number[][] {
+    return tracks.map(track => {
+      const predicted = stateToBbox(track.predicted.mean);
+      // Widen the distance tolerance for uncertain (e.g. coasting) tracks
+      const sigma = positionStd(track.predicted);
+      const { distanceScale } = this.params(track.class);
+      return detections.map(det => {
+        // Never associate across classes
+        if (det.class !== track.class) return 0;
+        const overlap = iou(predicted, det.bbox);
+        if (overlap < minOverlap) return 0;
+        const iouScore = overlap >= this.config.iouThreshold ? overlap : 0;
+        const dist = centerDistance(predicted, det.bbox);
+        const maxDim = Math.max(predicted[2], predicted[3], 100) + sigma;
+        const distScore = Math.max(0, 1 - dist / (maxDim * distanceScale));
+        return iouScore * this.config.iouWeight + distScore * this.config.distanceWeight;
+      });
+    });
+  }
+
+  private applyMatch(track: TrackedPerson, det: Detection, updateAppearance: boolean) {
+    track.corrected = correct(track.predicted, det.bbox);
+    track.score = det.score;
+    track.age = 0;
+    track.coastSeconds = 0;
+    track.hits++;
+    if (track.state === 'coasting' || track.hits >= this.config.minHits) track.state = 'confirmed';
+    if (updateAppearance && det.embedding) {
+      track.embedding = track.embedding
+        ? blendEmbedding(track.embedding, det.embedding, this.config.embeddingAlpha)
+        : det.embedding;
+    }
+  }
+
+  private reidentify(det: Detection): boolean {
+    if (!this.config.reid || !det.embedding) return false;
+
+    let bestSim = this.config.reidThreshold;
+    let bestTrack: TrackedPerson | null = null;
+    let bestLost = -1;
+
+    for (const track of this.tracked) {
+      if (track.state !== 'coasting' || !track.embedding || track.class !== det.class) continue;
+      // The histograms are coarse, so a look-alike somewhere else in the frame must not take the ID
+      const gate = REID_GATE_SIGMAS * positionStd(track.predicted);
+      if (centerDistance(stateToBbox(track.predicted.mean), det.bbox) > gate) continue;
+      const sim = embeddingSimilarity(track.embedding, det.embedding);
+      if (sim > bestSim) {
+        bestSim = sim;
+        bestTrack = track;
+        bestLost = -1;
+      }
+    }
+    for (let gi = 0; gi < this.gallery.length; gi++) {
+      if (this.gallery[gi].class !== det.class) continue;
+      const sim = embeddingSimilarity(this.gallery[gi].embedding, det.embedding);
+      if (sim > bestSim) {
+        bestSim = sim;
+        bestTrack = null;
+        bestLost = gi;
+      }
+    }
+
+    if (bestTrack) {
+      // Coasting track reappeared off its predicted course. It stays coasting (and keeps ageing)
+      // until the next update matches it there, so one look-alike sighting can't confirm it.
+      const kalman = initiate(det.bbox);
+      bestTrack.predicted = kalman;
+      bestTrack.corrected = kalman;
+      bestTrack.bbox = det.bbox;
+      bestTrack.score = det.score;
+      bestTrack.hits++;
+      bestTrack.velocity = [0, 0];
+      bestTrack.embedding = blendEmbedding(bestTrack.embedding, det.embedding, this.config.embeddingAlpha);
+      return true;
+    }
+    if (bestLost >= 0) {
+      const [lost] = this.gallery.splice(bestLost, 1);
+      // A known identity needs no confirmation
+      const track = this.createTrack(det, lost.id, 'confirmed');
+      track.embedding = blendEmbedding(lost.embedding, det.embedding, this.config.embeddingAlpha);
+      this.tracked.push(track);
+      return true;
+    }
+    return false;
+  }
+
+  private createTrack(det: Detection, id: number, state: TrackState): TrackedPerson {
+    const kalman = initiate(det.bbox);
+    return {
+      id,
+      class: det.class,
+      bbox: det.bbox,
+      score: det.score,
+      state,
+      hits: 1,
+      age: 0,
+      coastSeconds: 0,
+      velocity: [0, 0],
+      predicted: kalman,
+      corrected: kalman,
+      embedding: det.embedding,
+    };
   }
 
   reset() {
     this.tracked = [];
+    this.gallery = [];
     this.nextId = 1;
+    this.time = 0;
+    this.lastTimestamp = null;
   }
 
+  /** Confirmed and coasting tracks: the ones hit-testing and the UI should see. */
   getTracked(): TrackedPerson[] {
+    return this.tracked.filter(t => t.state !== 'tentative');
+  }
+
+  /** Every live track, tentative ones included. */
+  getAllTracks(): TrackedPerson[] {
     return this.tracked;
   }
 }
 
-export function findPersonAtPoint(
+export interface HitCandidate {
+  person: TrackedPerson;
+  rank: number; // higher = more likely the intended subject, 0 – 1
+}
+
+// Weights of the hit-test ranking terms; overlapping boxes usually mean the smaller one is in front
+const HIT_AREA_WEIGHT = 0.4;
+const HIT_CENTRE_WEIGHT = 0.4;
+const HIT_SCORE_WEIGHT = 0.2;
+const HIT_AMBIGUITY_MARGIN = 0.1;
+
+/**
+ * Every track whose box contains the point, best first: smaller boxes,
+ * points closer to the box centre and higher detector scores rank higher.
+ */
+export function rankPersonsAtPoint(
   persons: TrackedPerson[],
   x: number,
   y: number,
@@ -150,17 +399,76 @@ export function findPersonAtPoint(
   canvasHeight: number,
   videoWidth: number,
   videoHeight: number
-): TrackedPerson | null {
+): HitCandidate[] {
   const scaleX = videoWidth / canvasWidth;
   const scaleY = videoHeight / canvasHeight;
   const vx = x * scaleX;
   const vy = y * scaleY;
 
+  const hits = persons.filter(({ bbox: [bx, by, bw, bh] }) => vx >= bx && vx <= bx + bw && vy >= by && vy <= by + bh);
+  if (hits.length === 0) return [];
+
+  const minArea = Math.min(...hits.map(p => p.bbox[2] * p.bbox[3]));
+  return hits
+    .map(person => {
+      const [bx, by, bw, bh] = person.bbox;
+      const areaScore = minArea / Math.max(bw * bh, 1);
+      const halfDiagonal = Math.max(Math.hypot(bw, bh) / 2, 1);
+      const centreScore = 1 - Math.min(1, Math.hypot(vx - (bx + bw / 2), vy - (by + bh / 2)) / halfDiagonal);
+      const rank = HIT_AREA_WEIGHT * areaScore + HIT_CENTRE_WEIGHT * centreScore + HIT_SCORE_WEIGHT * person.score;
+      return { person, rank };
+    })
+    .sort((a, b) => b.rank - a.rank);
+}
+
+/** True when the runner-up is too close to the best candidate to pick one confidently. */
+export function isAmbiguousHit(candidates: HitCandidate[]): boolean {
+  return candidates.length > 1 && candidates[0].rank - candidates[1].rank < HIT_AMBIGUITY_MARGIN;
+}
+
+export function findPersonAtPoint(
+  persons: TrackedPerson[],
+  x: number,
+  y: number,
+  canvasWidth: number,
+  canvasHeight: number,
+  videoWidth: number,
+  videoHeight: number
+): TrackedPerson | null {
+  return rankPersonsAtPoint(persons, x, y, canvasWidth, canvasHeight, videoWidth, videoHeight)[0]?.person ?? null;
+}
+
+/**
+ * Like `findPersonAtPoint`, but when the point misses every box returns the
+ * box nearest to it, if within `tolerance` canvas pixels (for imprecise taps).
+ */
+export function findNearestPerson(
+  persons: TrackedPerson[],
+  x: number,
+  y: number,
+  canvasWidth: number,
+  canvasHeight: number,
+  videoWidth: number,
+  videoHeight: number,
+  tolerance: number
+): TrackedPerson | null {
+  const hit = findPersonAtPoint(persons, x, y, canvasWidth, canvasHeight, videoWidth, videoHeight);
+  if (hit) return hit;
+
+  const scaleX = canvasWidth / videoWidth;
+  const scaleY = canvasHeight / videoHeight;
+  let nearest: TrackedPerson | null = null;
+  let nearestDist = tolerance;
   for (const person of persons) {
     const [bx, by, bw, bh] = person.bbox;
-    if (vx >= bx && vx <= bx + bw && vy >= by && vy <= by + bh) {
-      return person;
+    // Distance from the point to the box edge, in canvas px
+    const dx = Math.max(bx * scaleX - x, 0, x - (bx + bw) * scaleX);
+    const dy = Math.max(by * scaleY - y, 0, y - (by + bh) * scaleY);
+    const dist = Math.hypot(dx, dy);
+    if (dist <= nearestDist) {
+      nearest = person;
+      nearestDist = dist;
     }
   }
-  return null;
+  return nearest;
 }
@@ -0,0 +1,91 @@
+// Tunable PersonTracker parameters, presets, and their persistence
+
+import { AssignmentStrategy } from './assignment';
+
+export interface TrackerConfig {
+  iouThreshold: number; // overlap below this doesn't count towards a match (centre distance still can)
+  minHits: number; // matches before a new track is confirmed and shown
+  maxAgeSeconds: number; // time a track coasts unmatched before it is deleted (per-class values scale with it)
+  iouWeight: number; // match score = iouWeight · IoU + distanceWeight · distance score
+  distanceWeight: number;
+  matchThreshold: number; // minimum match score to associate a track and a detection
+  assignment: AssignmentStrategy;
+  byteTrack: boolean; // second association pass for leftover tracks against low-score detections
+  lowScore: number; // detections below this are ignored even by the second pass
+  reid: boolean; // re-use IDs of coasting / lost tracks by appearance
+  reidThreshold: number; // min appearance similarity to re-use an ID
+  galleryMaxAgeSeconds: number; // time a lost track stays re-identifiable
+  embeddingAlpha: number; // how fast a track's appearance adapts
+}
+
+export const DEFAULT_TRACKER_CONFIG: TrackerConfig = {
+  iouThreshold: 0,
+  minHits: 3,
+  maxAgeSeconds: 0.5,
+  iouWeight: 0.6,
+  distanceWeight: 0.4,
+  matchThreshold: 0.1,
+  assignment: 'hungarian',
+  byteTrack: true,
+  lowScore: 0.1,
+  reid: true,
+  reidThreshold: 0.8,
+  galleryMaxAgeSeconds: 10,
+  embeddingAlpha: 0.1,
+};
+
+export type TrackerPresetId = 'default' | 'crowd' | 'sports' | 'webcam';
+
+export const TRACKER_PRESETS: { id: TrackerPresetId; label: string; config: TrackerConfig }[] = [
+  { id: 'default', label: 'Default', config: DEFAULT_TRACKER_CONFIG },
+  {
+    // Many similar, overlapping people: lean on overlap and be strict about appearance
+    id: 'crowd',
+    label: 'Crowd',
+    config: { ...DEFAULT_TRACKER_CONFIG, iouThreshold: 0.2, iouWeight: 0.7, distanceWeight: 0.3, matchThreshold: 0.2, maxAgeSeconds: 0.7, reidThreshold: 0.85 },
+  },
+  {
+    // Fast movers: boxes barely overlap between detections, so trust distance more
+    id: 'sports',
+    label: 'Sports',
+    config: { ...DEFAULT_TRACKER_CONFIG, iouWeight: 0.3, distanceWeight: 0.7, minHits: 2, maxAgeSeconds: 0.3, reidThreshold: 0.75, embeddingAlpha: 0.2 },
+  },
+  {
+    // Few people who step out of frame and come back
+    id: 'webcam',
+    label: 'Webcam',
+    config: { ...DEFAULT_TRACKER_CONFIG, maxAgeSeconds: 1, galleryMaxAgeSeconds: 30, reidThreshold: 0.75 },
+  },
+];
+
+export interface StoredTrackerConfig {
+  preset: TrackerPresetId | 'custom';
+  config: TrackerConfig;
+}
+
+const STORAGE_KEY = 'smartfocus.trackerConfig';
+
+/** Last saved tuning, falling back to the defaults for anything missing or unreadable. */
+export function loadTrackerConfig(): StoredTrackerConfig {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const stored = JSON.parse(raw) as Partial<StoredTrackerConfig>;
+      return {
+        preset: stored.preset ?? 'custom',
+        config: { ...DEFAULT_TRACKER_CONFIG, ...stored.config },
+      };
+    }
+  } catch {
+    // corrupt or inaccessible storage; use defaults
+  }
+  return { preset: 'default', config: DEFAULT_TRACKER_CONFIG };
+}
+
+export function saveTrackerConfig(stored: StoredTrackerConfig) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // storage full or disabled; tuning just won't persist
+  }
+}
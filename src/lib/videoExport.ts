@@ -0,0 +1,191 @@
+// Offline (frame-by-frame, not real-time) export of the rendered canvas to WebM
+
+import { pickWebmMimeType } from './recorder';
+
+export interface VideoExportOptions {
+  fps: number;
+  /** Detect + render the frame at `time` (seconds) into the export canvas. */
+  processFrame: (index: number, time: number) => Promise<void>;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+// Receives rendered frames in order and produces the encoded file
+interface FrameSink {
+  addFrame(index: number): Promise<void>;
+  finish(): Promise<Blob>;
+  abort(): void;
+}
+
+const KEYFRAME_INTERVAL_S = 2;
+const SEEK_TIMEOUT_MS = 5000;
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+}
+
+// Settles even if the source is swapped out mid-seek and neither 'seeked' nor 'error' ever fires
+function seekTo(video: HTMLVideoElement, time: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('Video seek failed'));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException('Export cancelled', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error('Video seek timed out'));
+    }, SEEK_TIMEOUT_MS);
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    if (signal?.aborted) return onAbort();
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+    video.currentTime = time;
+  });
+}
+
+// WebCodecs VP9 encoder muxed into WebM with exact frame timestamps
+async function createWebCodecsSink(canvas: HTMLCanvasElement, fps: number): Promise<FrameSink | null> {
+  if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') return null;
+
+  const config: VideoEncoderConfig = {
+    codec: 'vp09.00.10.08',
+    width: canvas.width,
+    height: canvas.height,
+    bitrate: 6_000_000,
+    framerate: fps,
+  };
+  const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+  if (!support?.supported) return null;
+
+  const { Muxer, ArrayBufferTarget } = await import('webm-muxer');
+  const target = new ArrayBufferTarget();
+  const muxer = new Muxer({
+    target,
+    video: { codec: 'V_VP9', width: canvas.width, height: canvas.height, frameRate: fps },
+  });
+
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: e => { failure = e; },
+  });
+  encoder.configure(config);
+
+  return {
+    async addFrame(index) {
+      if (failure) throw failure;
+      const frame = new VideoFrame(canvas, { timestamp: Math.round((index * 1e6) / fps) });
+      encoder.encode(frame, { keyFrame: index % Math.round(fps * KEYFRAME_INTERVAL_S) === 0 });
+      frame.close();
+      // Apply back-pressure so frames don't pile up in memory
+      if (encoder.encodeQueueSize > 4) await encoder.flush();
+    },
+    async finish() {
+      await encoder.flush();
+      if (failure) throw failure;
+      encoder.close();
+      muxer.finalize();
+      return new Blob([target.buffer], { type: 'video/webm' });
+    },
+    abort() {
+      if (encoder.state !== 'closed') encoder.close();
+    },
+  };
+}
+
+/**
+ * MediaRecorder fallback. The recorder timestamps by wall clock, so it is only
+ * resumed for one frame interval after each frame is ready.
+ */
+function createMediaRecorderSink(canvas: HTMLCanvasElement, fps: number): FrameSink {
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType: pickWebmMimeType(), videoBitsPerSecond: 6_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.start();
+  recorder.pause();
+
+  const frameMs = 1000 / fps;
+  return {
+    async addFrame() {
+      track.requestFrame();
+      recorder.resume();
+      await new Promise(r => setTimeout(r, frameMs));
+      recorder.pause();
+    },
+    finish() {
+      return new Promise<Blob>(resolve => {
+        recorder.onstop = () => {
+          stream.getTracks().forEach(t => t.stop());
+          resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+        };
+        recorder.stop();
+      });
+    },
+    abort() {
+      if (recorder.state !== 'inactive') recorder.stop();
+      stream.getTracks().forEach(t => t.stop());
+    },
+  };
+}
+
+/**
+ * Steps through `video` at `fps`, letting `processFrame` render each frame
+ * into `canvas`, and encodes the result. Playback state is restored afterwards.
+ * Rejects with an `AbortError` DOMException when `signal` is aborted.
+ */
+export async function exportVideo(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  options: VideoExportOptions
+): Promise<Blob> {
+  const { fps, processFrame, onProgress, signal } = options;
+  const duration = video.duration;
+  if (!Number.isFinite(duration) || duration <= 0) throw new Error('Video duration unknown');
+
+  const wasPaused = video.paused;
+  const resumeAt = video.currentTime;
+  video.pause();
+
+  const total = Math.max(1, Math.floor(duration * fps));
+  const sink = (await createWebCodecsSink(canvas, fps)) ?? createMediaRecorderSink(canvas, fps);
+
+  try {
+    for (let i = 0; i < total; i++) {
+      throwIfAborted(signal);
+      const time = i / fps;
+      await seekTo(video, time, signal);
+      await processFrame(i, time);
+      await sink.addFrame(i);
+      onProgress?.((i + 1) / total);
+    }
+    throwIfAborted(signal);
+    return await sink.finish();
+  } catch (err) {
+    sink.abort();
+    throw err;
+  } finally {
+    // Nothing to restore once the export was cancelled or the source has been cleared
+    if (!signal?.aborted && video.readyState !== HTMLMediaElement.HAVE_NOTHING) {
+      await seekTo(video, resumeAt).catch(() => {});
+      if (!wasPaused) video.play();
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { greedyAssign, hungarianAssign } from "@/lib/assignment";
+
+const total = (matches: { score: number }[]) =>
+  matches.reduce((sum, m) => sum + m.score, 0);
+
+describe("assignment", () => {
+  // Greedy grabs the 0.9 pair first and is left with 0.1 + 0.1
+  const crossing = [
+    [0.9, 0.8],
+    [0.8, 0.1],
+  ];
+
+  it("hungarian finds the globally optimal matching", () => {
+    const matches = hungarianAssign(crossing, 0);
+    expect(matches).toHaveLength(2);
+    expect(total(matches)).toBeCloseTo(1.6);
+    expect(matches.find(m => m.row === 0)?.col).toBe(1);
+  });
+
+  it("greedy takes the best pair first", () => {
+    const matches = greedyAssign(crossing, 0);
+    expect(matches.find(m => m.row === 0)?.col).toBe(0);
+    expect(total(matches)).toBeCloseTo(1.0);
+  });
+
+  it("never returns pairs at or below the cutoff", () => {
+    const scores = [
+      [0.05, 0.5],
+      [0.08, 0.02],
+    ];
+    expect(hungarianAssign(scores, 0.1)).toEqual([{ row: 0, col: 1, score: 0.5 }]);
+    expect(greedyAssign(scores, 0.1)).toEqual([{ row: 0, col: 1, score: 0.5 }]);
+  });
+
+  it("handles more tracks than detections", () => {
+    const scores = [[0.2], [0.7], [0.4]];
+    expect(hungarianAssign(scores, 0.1)).toEqual([{ row: 1, col: 0, score: 0.7 }]);
+  });
+
+  it("handles empty matrices", () => {
+    expect(hungarianAssign([], 0.1)).toEqual([]);
+    expect(hungarianAssign([[], []], 0.1)).toEqual([]);
+  });
+});
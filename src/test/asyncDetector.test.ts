@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { AsyncDetector } from "@/lib/asyncDetector";
+import { DetectorRequest, DetectorResponse } from "@/lib/detector";
+
+// Stand-in for detector.worker: answers `init` at once and leaves frames pending until told
+class FakeWorker {
+  static last: FakeWorker;
+  onmessage: ((e: MessageEvent<DetectorResponse>) => void) | null = null;
+  onerror: ((e: ErrorEvent) => void) | null = null;
+  posted: DetectorRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.last = this;
+  }
+
+  postMessage(msg: DetectorRequest) {
+    this.posted.push(msg);
+    if (msg.type === "init") queueMicrotask(() => this.respond({ type: "ready", backend: "fake", label: "Fake" }));
+  }
+
+  respond(data: DetectorResponse) {
+    this.onmessage?.({ data } as MessageEvent<DetectorResponse>);
+  }
+
+  detectRequests() {
+    return this.posted.filter(m => m.type === "detect");
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+class FakeImageBitmap {
+  width = 0;
+  height = 0;
+  close() {}
+}
+
+const MOCK = { model: "mock", backend: "auto" } as const;
+
+describe("AsyncDetector", () => {
+  beforeEach(() => {
+    vi.stubGlobal("Worker", FakeWorker);
+    vi.stubGlobal("ImageBitmap", FakeImageBitmap);
+    vi.stubGlobal("OffscreenCanvas", class { getContext() { return null; } });
+    vi.stubGlobal("createImageBitmap", async () => new FakeImageBitmap());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps the newest frame's result when an older one arrives later", async () => {
+    const detector = new AsyncDetector();
+    await detector.init(MOCK);
+    const video = document.createElement("video");
+
+    detector.submit(video, 100);
+    const newer = detector.detect(video);
+    await vi.waitFor(() => expect(FakeWorker.last.detectRequests()).toHaveLength(2));
+
+    const [first, second] = FakeWorker.last.detectRequests().map(m => (m.type === "detect" ? m.frameId : 0));
+    FakeWorker.last.respond({ type: "result", frameId: second, detections: [] });
+    await newer;
+    FakeWorker.last.respond({ type: "result", frameId: first, detections: [] });
+    await vi.waitFor(() => expect(detector.busy).toBe(false));
+
+    expect(detector.getLatest()?.frameId).toBe(second);
+  });
+
+  it("recovers on the main thread when the worker crashes mid-frame", async () => {
+    const detector = new AsyncDetector();
+    await detector.init(MOCK);
+    expect(detector.inWorker).toBe(true);
+    const recovered = new Promise<boolean>(resolve => {
+      detector.onWorkerError = (_, ok) => resolve(ok);
+    });
+
+    const video = document.createElement("video");
+    detector.submit(video, 100);
+    await vi.waitFor(() => expect(FakeWorker.last.detectRequests()).toHaveLength(1));
+    expect(detector.busy).toBe(true);
+
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    FakeWorker.last.onerror?.(new ErrorEvent("error", { message: "out of memory" }));
+    await expect(recovered).resolves.toBe(true);
+
+    expect(FakeWorker.last.terminated).toBe(true);
+    expect(detector.busy).toBe(false);
+    expect(detector.inWorker).toBe(false);
+    expect(detector.label).toBe("Mock");
+    expect(await detector.detect(video)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { AutoFocus } from "@/lib/autoFocus";
+import { makeTrack } from "./tracks";
+
+const person = (id: number, bbox: [number, number, number, number], velocity: [number, number] = [0, 0]) =>
+  makeTrack({ id, bbox, velocity });
+
+const W = 1000;
+const H = 600;
+const options = { switchMargin: 0.25, holdFrames: 5, motionAlpha: 0.5 };
+
+describe("AutoFocus", () => {
+  it("focuses nobody when off", () => {
+    expect(new AutoFocus("off").update([person(1, [0, 0, 50, 100])], W, H)).toBeNull();
+  });
+
+  it("picks the largest and most central subjects", () => {
+    const small = person(1, [450, 250, 40, 80]);
+    const big = person(2, [0, 0, 200, 400]);
+    expect(new AutoFocus("largest").update([small, big], W, H)).toBe(2);
+    expect(new AutoFocus("central").update([small, big], W, H)).toBe(1);
+  });
+
+  it("picks the subject that moves most", () => {
+    const auto = new AutoFocus("moving", options);
+    const still = person(1, [100, 100, 50, 100]);
+    const walking = person(2, [500, 100, 50, 100], [8, 0]);
+    expect(auto.update([still, walking], W, H)).toBe(2);
+  });
+
+  it("keeps the first subject to enter until they leave", () => {
+    const auto = new AutoFocus("first", options);
+    expect(auto.update([person(3, [0, 0, 50, 100])], W, H)).toBe(3);
+    for (let i = 0; i < 20; i++) auto.update([person(3, [0, 0, 50, 100]), person(4, [400, 0, 300, 500])], W, H);
+    expect(auto.update([person(3, [0, 0, 50, 100]), person(4, [400, 0, 300, 500])], W, H)).toBe(3);
+    expect(auto.update([person(4, [400, 0, 300, 500])], W, H)).toBe(4);
+  });
+
+  it("only hands off after a clearly better subject persists", () => {
+    const auto = new AutoFocus("largest", options);
+    const a = person(1, [0, 0, 100, 200]);
+    expect(auto.update([a], W, H)).toBe(1);
+
+    // Slightly larger: within the margin, never switches
+    const similar = person(2, [300, 0, 105, 205]);
+    for (let i = 0; i < 10; i++) expect(auto.update([a, similar], W, H)).toBe(1);
+
+    // Much larger: switches only after the hold period
+    const larger = person(3, [600, 0, 200, 400]);
+    const picks = Array.from({ length: 5 }, () => auto.update([a, larger], W, H));
+    expect(picks.slice(0, 4)).toEqual([1, 1, 1, 1]);
+    expect(picks[4]).toBe(3);
+  });
+
+  it("hands off immediately when the subject disappears", () => {
+    const auto = new AutoFocus("largest", options);
+    auto.update([person(1, [0, 0, 200, 400]), person(2, [500, 0, 50, 100])], W, H);
+    expect(auto.update([person(2, [500, 0, 50, 100])], W, H)).toBe(2);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { BoxSmoother, DEFAULT_SMOOTHING_CONFIG, OneEuroFilter } from "@/lib/boxSmoothing";
+import { makeTrack } from "./tracks";
+
+const person = (x: number, velocity: [number, number] = [0, 0]) => makeTrack({ bbox: [x, 100, 50, 100], velocity });
+
+// Alternates ±amplitude around x = 100, one update every 100 ms
+function jitter(smoother: BoxSmoother, amplitude: number, updates = 20): number[] {
+  const xs: number[] = [];
+  for (let i = 0; i < updates; i++) {
+    const p = person(100 + (i % 2 ? amplitude : -amplitude));
+    smoother.update([p], i * 100);
+    xs.push(smoother.apply([p], i * 100)[0].bbox[0]);
+  }
+  return xs;
+}
+
+const spread = (xs: number[]) => Math.max(...xs) - Math.min(...xs);
+
+describe("OneEuroFilter", () => {
+  it("passes the first value through and converges on a constant", () => {
+    const filter = new OneEuroFilter(1, 0);
+    expect(filter.filter(10, 0)).toBe(10);
+    let v = 0;
+    for (let i = 0; i < 50; i++) v = filter.filter(20, 0.1);
+    expect(v).toBeCloseTo(20, 1);
+  });
+});
+
+describe("BoxSmoother", () => {
+  it("damps detection jitter with EMA and One-Euro but not when off", () => {
+    const raw = jitter(new BoxSmoother({ ...DEFAULT_SMOOTHING_CONFIG, method: "off" }), 5).slice(5);
+    const ema = jitter(new BoxSmoother({ ...DEFAULT_SMOOTHING_CONFIG, method: "ema", emaAlpha: 0.3 }), 5).slice(5);
+    const euro = jitter(new BoxSmoother({ ...DEFAULT_SMOOTHING_CONFIG, method: "one-euro" }), 5).slice(5);
+    expect(spread(raw)).toBeCloseTo(10);
+    expect(spread(ema)).toBeLessThan(spread(raw) / 2);
+    expect(spread(euro)).toBeLessThan(spread(raw) / 2);
+  });
+
+  it("leaves the tracker's own boxes untouched", () => {
+    const smoother = new BoxSmoother();
+    smoother.update([person(100, [100, 0])], 0);
+    const tracked = [person(120, [100, 0])];
+    smoother.update(tracked, 100);
+
+    const display = smoother.apply(tracked, 150);
+    expect(tracked[0].bbox).toEqual([120, 100, 50, 100]);
+    expect(display[0].bbox).not.toBe(tracked[0].bbox);
+    expect(display[0].bbox[0]).not.toBe(120);
+  });
+
+  it("interpolates along the track velocity between updates", () => {
+    const smoother = new BoxSmoother({ ...DEFAULT_SMOOTHING_CONFIG, method: "off" });
+    smoother.update([person(100, [100, 0])], 0);
+    smoother.update([person(110, [100, 0])], 100);
+
+    expect(smoother.apply([person(110, [100, 0])], 150)[0].bbox[0]).toBeCloseTo(115);
+    // Never runs further ahead than one update
+    expect(smoother.apply([person(110, [100, 0])], 400)[0].bbox[0]).toBeCloseTo(120);
+  });
+
+  it("holds the box between updates when interpolation is off", () => {
+    const smoother = new BoxSmoother({ ...DEFAULT_SMOOTHING_CONFIG, method: "off", interpolate: false });
+    smoother.update([person(100, [100, 0])], 0);
+    expect(smoother.apply([person(100, [100, 0])], 50)[0].bbox[0]).toBe(100);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { PersonTracker, Detection } from "@/lib/tracker";
+
+const det = (x: number, score = 0.9): Detection => ({ id: 0, bbox: [x, 100, 60, 150], score, class: "person" });
+
+function confirmedTracker(byteTrack = true): PersonTracker {
+  const tracker = new PersonTracker({ byteTrack });
+  for (let i = 0; i < 3; i++) tracker.update([det(100 + i * 5)]);
+  return tracker;
+}
+
+describe("low-score second pass", () => {
+  it("keeps a track matched through low-confidence detections", () => {
+    const tracker = confirmedTracker();
+    const [before] = tracker.getTracked();
+
+    for (let i = 3; i < 8; i++) {
+      const [track] = tracker.update([det(100 + i * 5, 0.2)]);
+      expect(track.id).toBe(before.id);
+      expect(track.state).toBe("confirmed");
+      expect(track.age).toBe(0);
+    }
+  });
+
+  it("lets the track coast instead when disabled", () => {
+    const tracker = confirmedTracker(false);
+    const [track] = tracker.update([det(115, 0.2)]);
+    expect(track.state).toBe("coasting");
+  });
+
+  it("never starts a track from low-score detections", () => {
+    const tracker = new PersonTracker({ minHits: 1 });
+    for (let i = 0; i < 5; i++) expect(tracker.update([det(100, 0.2)])).toHaveLength(0);
+    expect(tracker.getAllTracks()).toHaveLength(0);
+  });
+
+  it("ignores low-score boxes that don't overlap the prediction", () => {
+    const tracker = confirmedTracker();
+    const [track] = tracker.update([det(400, 0.2)]);
+    expect(track.state).toBe("coasting");
+  });
+
+  it("ignores detections below the low-score floor", () => {
+    const tracker = confirmedTracker();
+    const [track] = tracker.update([det(115, 0.05)]);
+    expect(track.state).toBe("coasting");
+  });
+});
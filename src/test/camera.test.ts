@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_CAMERA_CONFIG, cameraConstraints, cameraErrorMessage } from "@/lib/camera";
+
+describe("camera", () => {
+  it("requests the preset resolution and frame rate by facing mode", () => {
+    expect(cameraConstraints({ ...DEFAULT_CAMERA_CONFIG, resolution: "1080p", frameRate: 60 })).toEqual({
+      video: {
+        facingMode: "user",
+        width: { ideal: 1920 },
+        height: { ideal: 1080 },
+        frameRate: { ideal: 60 },
+      },
+    });
+  });
+
+  it("pins a chosen device instead of the facing mode", () => {
+    const video = cameraConstraints({ ...DEFAULT_CAMERA_CONFIG, deviceId: "cam-2", facingMode: "environment" })
+      .video as MediaTrackConstraints;
+    expect(video.deviceId).toEqual({ exact: "cam-2" });
+    expect(video.facingMode).toBeUndefined();
+  });
+
+  it("explains common getUserMedia failures", () => {
+    const message = (name: string) => cameraErrorMessage(new DOMException("", name));
+    expect(message("NotAllowedError")).toMatch(/permission was denied/);
+    expect(message("NotReadableError")).toMatch(/busy/);
+    expect(message("NotFoundError")).toMatch(/No camera was found/);
+    expect(message("OverconstrainedError")).toMatch(/doesn't support these settings/);
+    expect(cameraErrorMessage(new Error("boom"))).toBe("The camera could not be started.");
+  });
+});
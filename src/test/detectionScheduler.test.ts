@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { DetectionScheduler } from "@/lib/detectionScheduler";
+import { makeTrack } from "./tracks";
+
+const person = (id: number, velocity: [number, number]) => makeTrack({ id, velocity });
+
+describe("DetectionScheduler", () => {
+  it("detects more often during fast motion than on a static scene", () => {
+    const scheduler = new DetectionScheduler({ targetFps: 60, powerSaver: false });
+    scheduler.recordLatency(100);
+    const fast = scheduler.update([person(1, [600, 0])], new Set());
+    const still = scheduler.update([person(1, [0, 0])], new Set());
+    expect(fast).toBeLessThan(still);
+  });
+
+  it("backs off in power-saver mode", () => {
+    const normal = new DetectionScheduler({ targetFps: 30, powerSaver: false });
+    const saver = new DetectionScheduler({ targetFps: 30, powerSaver: true });
+    const persons = [person(1, [60, 0])];
+    expect(saver.update(persons, new Set())).toBeGreaterThan(normal.update(persons, new Set()));
+    expect(saver.frameIntervalMs()).toBeGreaterThan(normal.frameIntervalMs());
+  });
+
+  it("never schedules faster than the render rate", () => {
+    const scheduler = new DetectionScheduler({ targetFps: 30, powerSaver: false });
+    for (let i = 0; i < 50; i++) scheduler.recordLatency(1);
+    expect(scheduler.update([person(1, [1500, 0])], new Set([1]))).toBeCloseTo(1000 / 30);
+  });
+});
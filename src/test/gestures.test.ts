@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Gesture, GestureRecognizer } from "@/lib/gestures";
+
+describe("GestureRecognizer", () => {
+  let gestures: Gesture[];
+  let recognizer: GestureRecognizer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    gestures = [];
+    recognizer = new GestureRecognizer(g => gestures.push(g));
+  });
+
+  afterEach(() => {
+    recognizer.dispose();
+    vi.useRealTimers();
+  });
+
+  it("recognises a tap despite slight drift", () => {
+    recognizer.pointerDown(1, 100, 100, 0);
+    recognizer.pointerMove(1, 104, 103);
+    recognizer.pointerUp(1, 104, 103, 120);
+    expect(gestures).toEqual([{ type: "tap", x: 104, y: 103 }]);
+  });
+
+  it("recognises a long-press and no tap on release", () => {
+    recognizer.pointerDown(1, 50, 60, 0);
+    vi.advanceTimersByTime(600);
+    recognizer.pointerUp(1, 50, 60, 600);
+    expect(gestures).toEqual([{ type: "longpress", x: 50, y: 60 }]);
+  });
+
+  it("recognises horizontal swipes and ignores slow drags", () => {
+    recognizer.pointerDown(1, 300, 100, 0);
+    recognizer.pointerMove(1, 200, 105);
+    recognizer.pointerUp(1, 150, 110, 200);
+
+    recognizer.pointerDown(2, 100, 100, 1000);
+    recognizer.pointerMove(2, 200, 100);
+    recognizer.pointerUp(2, 250, 100, 2000);
+    expect(gestures).toEqual([{ type: "swipe", direction: "left" }]);
+  });
+
+  it("reports incremental pinch scale and no tap afterwards", () => {
+    recognizer.pointerDown(1, 100, 100, 0);
+    recognizer.pointerDown(2, 200, 100, 10);
+    recognizer.pointerMove(2, 300, 100);
+    recognizer.pointerMove(1, 0, 100);
+    recognizer.pointerUp(1, 0, 100, 300);
+    recognizer.pointerUp(2, 300, 100, 310);
+    vi.advanceTimersByTime(1000);
+
+    expect(gestures.map(g => g.type)).toEqual(["pinch", "pinch"]);
+    const scales = gestures.map(g => (g.type === "pinch" ? g.scale : 0));
+    expect(scales[0]).toBeCloseTo(2);
+    expect(scales[0] * scales[1]).toBeCloseTo(3);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { TrackedPerson, findNearestPerson, findPersonAtPoint, isAmbiguousHit, rankPersonsAtPoint } from "@/lib/tracker";
+import { makeTrack } from "./tracks";
+
+const person = (id: number, bbox: [number, number, number, number], score = 0.9) => makeTrack({ id, bbox, score });
+
+// Canvas at half the video resolution
+const near = (persons: TrackedPerson[], x: number, y: number, tolerance: number) =>
+  findNearestPerson(persons, x, y, 640, 360, 1280, 720, tolerance);
+
+describe("findNearestPerson", () => {
+  const persons = [person(1, [100, 100, 100, 200]), person(2, [600, 100, 100, 200])];
+
+  it("returns the box under the point", () => {
+    expect(near(persons, 75, 100, 20)?.id).toBe(1);
+  });
+
+  it("falls back to the nearest box within the tolerance", () => {
+    expect(near(persons, 110, 100, 20)?.id).toBe(1);
+    expect(near(persons, 290, 100, 20)?.id).toBe(2);
+  });
+
+  it("returns nothing when every box is too far", () => {
+    expect(near(persons, 200, 100, 20)).toBeNull();
+  });
+});
+
+describe("rankPersonsAtPoint", () => {
+  const rank = (persons: TrackedPerson[], x: number, y: number) => rankPersonsAtPoint(persons, x, y, 1280, 720, 1280, 720);
+
+  it("prefers the smaller box in front over the larger one behind", () => {
+    const behind = person(1, [100, 50, 300, 600]);
+    const front = person(2, [200, 300, 120, 240]);
+    const hits = rank([behind, front], 260, 420);
+    expect(hits.map(h => h.person.id)).toEqual([2, 1]);
+    expect(findPersonAtPoint([behind, front], 260, 420, 1280, 720, 1280, 720)?.id).toBe(2);
+    expect(isAmbiguousHit(hits)).toBe(false);
+  });
+
+  it("flags near-identical overlapping boxes as ambiguous", () => {
+    const a = person(1, [100, 100, 100, 200], 0.8);
+    const b = person(2, [110, 100, 100, 200], 0.8);
+    const hits = rank([a, b], 155, 200);
+    expect(hits).toHaveLength(2);
+    expect(isAmbiguousHit(hits)).toBe(true);
+  });
+
+  it("breaks ties by the closer centre and then the higher score", () => {
+    const left = person(1, [100, 100, 100, 200]);
+    const right = person(2, [150, 100, 100, 200]);
+    expect(rank([left, right], 160, 200)[0].person.id).toBe(1);
+    expect(rank([left, right], 190, 200)[0].person.id).toBe(2);
+
+    const weak = person(3, [100, 100, 100, 200], 0.4);
+    const strong = person(4, [100, 100, 100, 200], 0.95);
+    expect(rank([weak, strong], 150, 200)[0].person.id).toBe(4);
+  });
+
+  it("returns nothing for a point outside every box", () => {
+    expect(rank([person(1, [100, 100, 100, 200])], 50, 50)).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { NOMINAL_STEP_S, correct, initiate, positionStd, predict, stateToBbox } from "@/lib/kalman";
+
+describe("kalman", () => {
+  it("round-trips a bbox through the state", () => {
+    const state = initiate([10, 20, 50, 100]);
+    stateToBbox(state.mean).forEach((v, i) => expect(v).toBeCloseTo([10, 20, 50, 100][i]));
+  });
+
+  it("learns a constant velocity in px per second", () => {
+    let state = initiate([0, 0, 50, 100]);
+    for (let t = 1; t <= 30; t++) {
+      state = correct(predict(state), [t * 4, 0, 50, 100]);
+    }
+    expect(state.mean[4] * NOMINAL_STEP_S).toBeCloseTo(4, 0);
+    expect(state.mean[5]).toBeCloseTo(0, 0);
+  });
+
+  it("predicts by the elapsed time, whatever the update spacing", () => {
+    let state = initiate([0, 0, 50, 100]);
+    for (let t = 1; t <= 30; t++) {
+      state = correct(predict(state, 0.1), [t * 12, 0, 50, 100]);
+    }
+    // 120 px/s either way; a longer step moves further and is less certain
+    expect(state.mean[4]).toBeCloseTo(120, -1);
+    const short = predict(state, 0.05);
+    const long = predict(state, 0.5);
+    expect(long.mean[0] - state.mean[0]).toBeCloseTo((short.mean[0] - state.mean[0]) * 10);
+    expect(positionStd(long)).toBeGreaterThan(positionStd(short));
+  });
+
+  it("grows uncertainty while coasting", () => {
+    let state = initiate([0, 0, 50, 100]);
+    for (let t = 1; t <= 10; t++) state = correct(predict(state), [0, 0, 50, 100]);
+    const settled = positionStd(state);
+    for (let t = 0; t < 5; t++) state = predict(state);
+    expect(positionStd(state)).toBeGreaterThan(settled);
+  });
+});
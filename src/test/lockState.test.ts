@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { LockMonitor } from "@/lib/lockState";
+import { makeTrack } from "./tracks";
+
+const person = (id: number, age = 0) => makeTrack({ id, class: "dog", age, state: age > 0 ? "coasting" : "confirmed" });
+
+const selected = new Set([1]);
+
+describe("LockMonitor", () => {
+  it("walks locked → coasting → searching → lost", () => {
+    const monitor = new LockMonitor(1000);
+    expect(monitor.update([person(1)], selected, 0)).toEqual([]);
+    expect(monitor.get(1)?.state).toBe("locked");
+
+    expect(monitor.update([person(1, 3)], selected, 100)).toEqual([{ id: 1, from: "locked", to: "coasting" }]);
+    expect(monitor.update([], selected, 200)).toEqual([{ id: 1, from: "coasting", to: "searching" }]);
+    expect(monitor.update([], selected, 1100)).toEqual([]);
+    expect(monitor.update([], selected, 1200)).toEqual([{ id: 1, from: "searching", to: "lost" }]);
+    expect(monitor.statuses().get(1)).toEqual({ state: "lost", class: "dog" });
+  });
+
+  it("reacquires a subject whose ID comes back", () => {
+    const monitor = new LockMonitor(1000);
+    monitor.update([person(1)], selected, 0);
+    monitor.update([], selected, 100);
+    expect(monitor.update([person(1)], selected, 500)).toEqual([{ id: 1, from: "searching", to: "locked" }]);
+  });
+
+  it("keeps the last-seen box of missing subjects", () => {
+    const monitor = new LockMonitor(1000);
+    monitor.update([person(1), person(2)], selected, 0);
+    expect(monitor.missing()).toEqual([]);
+    monitor.update([person(2)], selected, 100);
+    expect(monitor.missing().map(p => p.id)).toEqual([1]);
+  });
+
+  it("forgets subjects that are deselected", () => {
+    const monitor = new LockMonitor();
+    monitor.update([person(1)], selected, 0);
+    monitor.update([], new Set(), 100);
+    expect(monitor.get(1)).toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { MotFrame, MotObject, evaluateMot } from "@/lib/motMetrics";
+
+const box = (id: number, x: number): MotObject => ({ id, bbox: [x, 100, 50, 100] });
+
+describe("evaluateMot", () => {
+  it("scores perfect tracking as 1", () => {
+    const frames: MotFrame[] = [0, 10, 20].map(x => ({ gt: [box(1, x)], hyp: [box(7, x)] }));
+    const m = evaluateMot(frames);
+    expect(m.mota).toBe(1);
+    expect(m.idf1).toBe(1);
+    expect(m.idSwitches).toBe(0);
+    expect(m.fragmentations).toBe(0);
+  });
+
+  it("counts an ID switch when the matching track changes", () => {
+    const frames: MotFrame[] = [
+      { gt: [box(1, 0)], hyp: [box(7, 0)] },
+      { gt: [box(1, 10)], hyp: [box(7, 10)] },
+      { gt: [box(1, 20)], hyp: [box(8, 20)] },
+      { gt: [box(1, 30)], hyp: [box(8, 30)] },
+    ];
+    const m = evaluateMot(frames);
+    expect(m.idSwitches).toBe(1);
+    expect(m.mota).toBeCloseTo(1 - 1 / 4);
+    expect(m.idf1).toBeCloseTo(0.5);
+  });
+
+  it("counts misses, false positives and fragmentation", () => {
+    const frames: MotFrame[] = [
+      { gt: [box(1, 0)], hyp: [box(7, 0)] },
+      { gt: [box(1, 10)], hyp: [box(9, 400)] },
+      { gt: [box(1, 20)], hyp: [box(7, 20)] },
+    ];
+    const m = evaluateMot(frames);
+    expect(m.misses).toBe(1);
+    expect(m.falsePositives).toBe(1);
+    expect(m.fragmentations).toBe(1);
+    expect(m.idSwitches).toBe(0);
+    expect(m.mota).toBeCloseTo(1 - 2 / 3);
+  });
+
+  it("does not count a late first match as fragmentation", () => {
+    const frames: MotFrame[] = [
+      { gt: [box(1, 0)], hyp: [] },
+      { gt: [box(1, 10)], hyp: [box(7, 10)] },
+    ];
+    expect(evaluateMot(frames).fragmentations).toBe(0);
+  });
+});
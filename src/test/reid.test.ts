@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { PersonTracker, Detection } from "@/lib/tracker";
+import { embeddingFromPixels } from "@/lib/appearance";
+
+function solid(r: number, g: number, b: number): number[] {
+  const data = new Uint8ClampedArray(16 * 32 * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+    data[i + 3] = 255;
+  }
+  return embeddingFromPixels(data, 16, 32);
+}
+
+const red = solid(220, 30, 30);
+const blue = solid(30, 30, 220);
+
+const person = (x: number, embedding: number[]): Detection => ({
+  id: 0,
+  bbox: [x, 100, 60, 150],
+  score: 0.9,
+  class: "person",
+  embedding,
+});
+
+describe("appearance re-identification", () => {
+  it("gives a returning person their old ID after the track expired", () => {
+    const tracker = new PersonTracker({ minHits: 1 });
+    const [first] = tracker.update([person(100, red)]);
+    for (let i = 0; i < 40; i++) tracker.update([]);
+    expect(tracker.getTracked()).toHaveLength(0);
+
+    const [back] = tracker.update([person(500, red)]);
+    expect(back.id).toBe(first.id);
+  });
+
+  it("does not re-use an ID for someone who looks different", () => {
+    const tracker = new PersonTracker({ minHits: 1 });
+    const [first] = tracker.update([person(100, red)]);
+    for (let i = 0; i < 40; i++) tracker.update([]);
+
+    const [other] = tracker.update([person(500, blue)]);
+    expect(other.id).not.toBe(first.id);
+  });
+
+  // Overlap-only association, so only appearance can bridge a jump between boxes
+  const overlapOnly = { minHits: 1, iouWeight: 1, distanceWeight: 0 };
+
+  it("re-attaches a coasting track near its prediction, confirming on the next sighting", () => {
+    const tracker = new PersonTracker(overlapOnly);
+    const [first] = tracker.update([person(100, red)]);
+    for (let i = 0; i < 5; i++) tracker.update([]);
+
+    const [reattached] = tracker.update([person(200, red)]);
+    expect(reattached.id).toBe(first.id);
+    expect(reattached.state).toBe("coasting");
+
+    const [seenAgain] = tracker.update([person(205, red)]);
+    expect(seenAgain.id).toBe(first.id);
+    expect(seenAgain.state).toBe("confirmed");
+  });
+
+  it("does not let a look-alike far from the prediction take over a coasting track", () => {
+    const tracker = new PersonTracker(overlapOnly);
+    const [first] = tracker.update([person(100, red)]);
+    for (let i = 0; i < 5; i++) tracker.update([]);
+
+    const tracked = tracker.update([person(900, red)]);
+    expect(tracked).toHaveLength(2);
+    expect(tracked.find(t => t.bbox[0] === 900)?.id).not.toBe(first.id);
+    expect(tracked.find(t => t.id === first.id)?.state).toBe("coasting");
+  });
+});
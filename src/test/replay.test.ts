@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { fixtures, loadFixture, replay, replayMetrics } from "./replay";
+
+describe("tracker replay", () => {
+  it("loads every fixture", () => {
+    expect(fixtures.map(f => f.name).sort()).toEqual(["crossing", "crowd", "occlusion"]);
+  });
+
+  it("is deterministic", () => {
+    const fixture = loadFixture("crowd");
+    expect(replay(fixture)).toEqual(replay(fixture));
+  });
+
+  it("keeps identities when two people cross", () => {
+    const m = replayMetrics(loadFixture("crossing"));
+    expect(m.idSwitches).toBe(0);
+    expect(m.mota).toBeGreaterThanOrEqual(0.95);
+    expect(m.idf1).toBeGreaterThanOrEqual(0.95);
+  });
+
+  it("coasts through a full occlusion without fragmenting", () => {
+    const m = replayMetrics(loadFixture("occlusion"));
+    expect(m.idSwitches).toBe(0);
+    expect(m.fragmentations).toBe(0);
+    expect(m.mota).toBeGreaterThanOrEqual(0.95);
+  });
+
+  it("holds up in a crowd with dropouts and false positives", () => {
+    const m = replayMetrics(loadFixture("crowd"));
+    expect(m.idSwitches).toBe(0);
+    // One-frame false positives never get past the tentative state
+    expect(m.falsePositives).toBe(0);
+    expect(m.mota).toBeGreaterThanOrEqual(0.95);
+    expect(m.idf1).toBeGreaterThanOrEqual(0.9);
+  });
+});
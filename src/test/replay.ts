@@ -0,0 +1,38 @@
+// Deterministic replay of recorded detections through the tracker, for regression tests
+
+import { AssignmentStrategy } from "@/lib/assignment";
+import { Detection, PersonTracker } from "@/lib/tracker";
+import { MotFrame, MotObject, evaluateMot, MotMetrics } from "@/lib/motMetrics";
+
+export interface ReplayFixture {
+  name: string;
+  description: string;
+  frames: {
+    detections: Omit<Detection, "id">[];
+    groundTruth: MotObject[];
+  }[];
+}
+
+const modules = import.meta.glob<ReplayFixture>("./fixtures/*.json", { eager: true, import: "default" });
+
+export const fixtures: ReplayFixture[] = Object.values(modules);
+
+export function loadFixture(name: string): ReplayFixture {
+  const fixture = fixtures.find(f => f.name === name);
+  if (!fixture) throw new Error(`Unknown replay fixture: ${name}`);
+  return fixture;
+}
+
+/** Feeds every frame's detections to a fresh tracker and pairs its output with the ground truth. */
+export function replay(fixture: ReplayFixture, strategy: AssignmentStrategy = "hungarian"): MotFrame[] {
+  const tracker = new PersonTracker({ assignment: strategy });
+  return fixture.frames.map(frame => {
+    const detections = frame.detections.map((d, id) => ({ ...d, id }));
+    const hyp = tracker.update(detections).map(t => ({ id: t.id, bbox: t.bbox }));
+    return { gt: frame.groundTruth, hyp };
+  });
+}
+
+export function replayMetrics(fixture: ReplayFixture, strategy: AssignmentStrategy = "hungarian"): MotMetrics {
+  return evaluateMot(replay(fixture, strategy));
+}
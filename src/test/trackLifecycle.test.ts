@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { PersonTracker, Detection, findPersonAtPoint } from "@/lib/tracker";
+
+const det = (x: number): Detection => ({ id: 0, bbox: [x, 100, 60, 150], score: 0.9, class: "person" });
+
+describe("track lifecycle", () => {
+  it("keeps a new track tentative and hidden until it has minHits matches", () => {
+    const tracker = new PersonTracker({ minHits: 3 });
+    expect(tracker.update([det(100)])).toHaveLength(0);
+    expect(tracker.getAllTracks()[0].state).toBe("tentative");
+    expect(tracker.update([det(105)])).toHaveLength(0);
+
+    const [track] = tracker.update([det(110)]);
+    expect(track.state).toBe("confirmed");
+    expect(track.hits).toBe(3);
+  });
+
+  it("deletes a tentative track on its first miss", () => {
+    const tracker = new PersonTracker({ minHits: 3 });
+    tracker.update([det(100)]);
+    tracker.update([]);
+    expect(tracker.getAllTracks()).toHaveLength(0);
+  });
+
+  it("never exposes a one-frame false positive to hit-testing", () => {
+    const tracker = new PersonTracker({ minHits: 2 });
+    tracker.update([det(100)]);
+    expect(findPersonAtPoint(tracker.getTracked(), 130, 170, 640, 480, 640, 480)).toBeNull();
+  });
+
+  it("coasts a confirmed track and reconfirms it when it is seen again", () => {
+    const tracker = new PersonTracker({ minHits: 1, reid: false });
+    const [first] = tracker.update([det(100)]);
+
+    const [coasting] = tracker.update([]);
+    expect(coasting.state).toBe("coasting");
+    expect(coasting.age).toBe(1);
+
+    const [back] = tracker.update([det(100)]);
+    expect(back.id).toBe(first.id);
+    expect(back.state).toBe("confirmed");
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { RecordedDetections, TrackLogger, parseDetections, toMotCsv, toTrackLogJson } from "@/lib/trackLog";
+import { TrackedPerson } from "@/lib/tracker";
+import { makeTrack } from "./tracks";
+
+const track = (id: number, x: number, cls = "person") => makeTrack({ id, class: cls, bbox: [x, 20, 30, 60], score: 0.875 });
+
+function logOf(...frames: TrackedPerson[][]) {
+  const logger = new TrackLogger();
+  logger.start();
+  frames.forEach((persons, i) => logger.record(persons, i * 40));
+  logger.stop();
+  return logger.getFrames();
+}
+
+describe("track logs", () => {
+  it("only records while started", () => {
+    const logger = new TrackLogger();
+    logger.record([track(1, 0)], 0);
+    expect(logger.frameCount).toBe(0);
+    logger.start();
+    logger.record([track(1, 0)], 0);
+    logger.stop();
+    logger.record([track(1, 0)], 40);
+    expect(logger.frameCount).toBe(1);
+  });
+
+  it("numbers frames by media time, not by update count", () => {
+    const logger = new TrackLogger(25);
+    logger.start();
+    logger.record([track(1, 0)], 0);
+    logger.record([track(1, 4)], 400);
+    logger.record([track(1, 5)], 410);
+    logger.record([track(1, 8)], 1000);
+    expect(logger.getFrames().map(f => f.frame)).toEqual([1, 11, 26]);
+    // The later update for a frame wins
+    expect(logger.getFrames()[1].tracks[0].bbox[0]).toBe(5);
+
+    const recorded = new RecordedDetections(parseDetections(toMotCsv(logger.getFrames())), 25);
+    expect(recorded.detectionsAt(1)[0].bbox[0]).toBe(8);
+  });
+
+  it("writes MOTChallenge rows with 1-based frames", () => {
+    const csv = toMotCsv(logOf([track(1, 10), track(2, 50)], [track(1, 12)]));
+    expect(csv.trim().split("\n")).toEqual([
+      "1,1,10,20,30,60,0.88,-1,-1,-1",
+      "1,2,50,20,30,60,0.88,-1,-1,-1",
+      "2,1,12,20,30,60,0.88,-1,-1,-1",
+    ]);
+  });
+
+  it("round-trips through MOT text and JSON", () => {
+    const frames = logOf([track(1, 10), track(2, 50, "dog")], [], [track(1, 14)]);
+
+    const fromCsv = parseDetections(toMotCsv(frames));
+    expect([...fromCsv.keys()]).toEqual([1, 3]);
+    expect(fromCsv.get(1)?.map(d => d.bbox)).toEqual([[10, 20, 30, 60], [50, 20, 30, 60]]);
+
+    const fromJson = parseDetections(toTrackLogJson(frames));
+    expect(fromJson.get(1)?.map(d => d.class)).toEqual(["person", "dog"]);
+    expect(fromJson.get(2)).toEqual([]);
+  });
+
+  it("parses whitespace-separated MOT files and rejects malformed rows", () => {
+    const frames = parseDetections("# det.txt\n1 -1 5 6 7 8 0.9\n\n2 -1 1 2 3 4 0.5 -1 -1 -1\n");
+    expect(frames.get(2)?.[0]).toMatchObject({ bbox: [1, 2, 3, 4], score: 0.5, class: "person" });
+    expect(() => parseDetections("1,-1,a,b,c,d,e")).toThrow(/line 1/);
+  });
+});
+
+describe("RecordedDetections", () => {
+  it("serves detections by media time", () => {
+    const source = new RecordedDetections(parseDetections("1,-1,0,0,10,10,1\n2,-1,5,0,10,10,1\n"), 25);
+    expect(source.detectionsAt(0)[0].bbox[0]).toBe(0);
+    expect(source.detectionsAt(0.04)[0].bbox[0]).toBe(5);
+    expect(source.detectionsAt(1)).toEqual([]);
+    expect(source.withFps(50).frameAt(0.02)).toBe(2);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { PersonTracker, Detection, classTrackerParams } from "@/lib/tracker";
+
+const det = (cls: string, x: number, score = 0.9): Detection => ({
+  id: 0,
+  bbox: [x, 100, 60, 60],
+  score,
+  class: cls,
+});
+
+describe("class-aware tracking", () => {
+  it("tracks only people by default", () => {
+    const tracker = new PersonTracker({ minHits: 1 });
+    const tracked = tracker.update([det("person", 100), det("dog", 300)]);
+    expect(tracked.map(t => t.class)).toEqual(["person"]);
+  });
+
+  it("tracks the selected classes and labels each track", () => {
+    const tracker = new PersonTracker({ minHits: 1 }, ["person", "dog"]);
+    const tracked = tracker.update([det("person", 100), det("dog", 300), det("car", 500)]);
+    expect(tracked.map(t => t.class).sort()).toEqual(["dog", "person"]);
+  });
+
+  it("never matches a track to a detection of another class", () => {
+    const tracker = new PersonTracker({ minHits: 1 }, ["person", "dog"]);
+    const [dog] = tracker.update([det("dog", 100)]);
+    const tracked = tracker.update([det("person", 100)]);
+    expect(tracked).toHaveLength(2);
+    expect(tracked.find(t => t.class === "person")?.id).not.toBe(dog.id);
+  });
+
+  it("drops tracks of classes that are no longer wanted", () => {
+    const tracker = new PersonTracker({ minHits: 1 }, ["person", "dog"]);
+    tracker.update([det("person", 100), det("dog", 300)]);
+    tracker.setClasses(["dog"]);
+    expect(tracker.getTracked().map(t => t.class)).toEqual(["dog"]);
+  });
+
+  it("applies per-class parameters", () => {
+    expect(classTrackerParams("sports ball").maxAgeSeconds).toBeLessThan(classTrackerParams("person").maxAgeSeconds);
+
+    const tracker = new PersonTracker({ minHits: 1 }, ["sports ball", "person"]);
+    tracker.update([det("sports ball", 100), det("person", 400)], 0);
+    tracker.update([], classTrackerParams("sports ball").maxAgeSeconds * 1000);
+    expect(tracker.getTracked().map(t => t.class)).toEqual(["person"]);
+  });
+
+  it("scales per-class max ages with the configured one", () => {
+    expect(classTrackerParams("car", 1).maxAgeSeconds).toBe(2 * classTrackerParams("car").maxAgeSeconds);
+
+    // Cars coast twice the default; halving the default halves theirs too
+    const tracker = new PersonTracker({ minHits: 1, maxAgeSeconds: 0.25 }, ["car"]);
+    tracker.update([det("car", 100)], 0);
+    tracker.update([], 400);
+    expect(tracker.getTracked()).toHaveLength(1);
+    tracker.update([], 500);
+    expect(tracker.getTracked()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { PersonTracker, Detection } from "@/lib/tracker";
+import { DEFAULT_TRACKER_CONFIG, TRACKER_PRESETS, loadTrackerConfig, saveTrackerConfig } from "@/lib/trackerConfig";
+
+const det = (x: number): Detection => ({ id: 0, bbox: [x, 100, 60, 150], score: 0.9, class: "person" });
+
+describe("TrackerConfig", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("fills unspecified parameters with the defaults", () => {
+    const tracker = new PersonTracker({ maxAgeSeconds: 0.2 });
+    expect(tracker.getConfig()).toEqual({ ...DEFAULT_TRACKER_CONFIG, maxAgeSeconds: 0.2 });
+  });
+
+  it("applies maxAgeSeconds from the config", () => {
+    // Three updates at the nominal 30 fps
+    const tracker = new PersonTracker({ minHits: 1, maxAgeSeconds: 0.1 });
+    tracker.update([det(100)]);
+    for (let i = 0; i < 2; i++) tracker.update([]);
+    expect(tracker.getTracked()).toHaveLength(1);
+    tracker.update([]);
+    expect(tracker.getTracked()).toHaveLength(0);
+  });
+
+  it("limits coasting by elapsed time, not by update count", () => {
+    const fast = new PersonTracker({ minHits: 1, maxAgeSeconds: 0.5 });
+    fast.update([det(100)], 0);
+    for (let t = 40; t < 500; t += 40) fast.update([], t);
+    expect(fast.getTracked()).toHaveLength(1);
+
+    const slow = new PersonTracker({ minHits: 1, maxAgeSeconds: 0.5 });
+    slow.update([det(100)], 0);
+    slow.update([], 300);
+    expect(slow.getTracked()[0].state).toBe("coasting");
+    slow.update([], 600);
+    expect(slow.getTracked()).toHaveLength(0);
+  });
+
+  it("can be retuned at runtime without dropping tracks", () => {
+    const tracker = new PersonTracker({ minHits: 1 });
+    const [first] = tracker.update([det(100)]);
+    expect(tracker.update([det(140)])[0].id).toBe(first.id);
+
+    // A cutoff no pair can reach makes every detection a new track
+    tracker.setConfig({ matchThreshold: 0.99, reid: false });
+    const tracked = tracker.update([det(145)]);
+    expect(tracked.map(t => t.id)).toContain(first.id);
+    expect(tracked).toHaveLength(2);
+  });
+
+  it("persists the selected preset and tuning", () => {
+    expect(loadTrackerConfig()).toEqual({ preset: "default", config: DEFAULT_TRACKER_CONFIG });
+
+    const sports = TRACKER_PRESETS.find(p => p.id === "sports")!;
+    saveTrackerConfig({ preset: "custom", config: { ...sports.config, maxAgeSeconds: 0.4 } });
+    expect(loadTrackerConfig()).toEqual({ preset: "custom", config: { ...sports.config, maxAgeSeconds: 0.4 } });
+  });
+
+  it("falls back to defaults for corrupt storage", () => {
+    localStorage.setItem("smartfocus.trackerConfig", "{not json");
+    expect(loadTrackerConfig().config).toEqual(DEFAULT_TRACKER_CONFIG);
+  });
+});
@@ -0,0 +1,24 @@
+// Shared TrackedPerson factory for tests that feed tracker output to other modules
+
+import { TrackedPerson } from "@/lib/tracker";
+import { initiate } from "@/lib/kalman";
+
+/** A confirmed, just-matched person track at rest; override any field. */
+export function makeTrack(fields: Partial<TrackedPerson> = {}): TrackedPerson {
+  const bbox = fields.bbox ?? [100, 100, 50, 100];
+  const state = initiate(bbox);
+  return {
+    id: 1,
+    class: "person",
+    bbox,
+    score: 0.9,
+    state: "confirmed",
+    hits: 1,
+    age: 0,
+    coastSeconds: 0,
+    velocity: [0, 0],
+    predicted: state,
+    corrected: state,
+    ...fields,
+  };
+}
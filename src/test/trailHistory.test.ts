@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { TrailHistory } from "@/lib/overlayRenderer";
+import { makeTrack } from "./tracks";
+
+const person = (id: number, x: number) => makeTrack({ id, bbox: [x, 100, 50, 100] });
+
+describe("TrailHistory", () => {
+  it("records bbox centres per track, capped at the max length", () => {
+    const trails = new TrailHistory(3);
+    for (let x = 0; x < 50; x += 10) trails.update([person(1, x)]);
+    expect(trails.get(1)).toEqual([[45, 150], [55, 150], [65, 150]]);
+  });
+
+  it("forgets tracks that are gone", () => {
+    const trails = new TrailHistory();
+    trails.update([person(1, 0), person(2, 100)]);
+    trails.update([person(2, 110)]);
+    expect(trails.get(1)).toEqual([]);
+    expect(trails.get(2)).toHaveLength(2);
+  });
+});
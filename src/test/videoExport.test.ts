@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { exportVideo } from "@/lib/videoExport";
+
+// A loaded video whose seeks never complete: 'seeked' is never fired
+class StuckVideo extends EventTarget {
+  duration = 2;
+  currentTime = 1.5;
+  paused = true;
+  readyState = 4;
+  pause() {
+    this.paused = true;
+  }
+  play() {
+    this.paused = false;
+    return Promise.resolve();
+  }
+}
+
+class FakeMediaRecorder {
+  static isTypeSupported() {
+    return true;
+  }
+  state = "inactive";
+  mimeType = "video/webm";
+  ondataavailable: ((e: BlobEvent) => void) | null = null;
+  onstop: (() => void) | null = null;
+  start() {
+    this.state = "recording";
+  }
+  pause() {
+    this.state = "paused";
+  }
+  resume() {
+    this.state = "recording";
+  }
+  stop() {
+    this.state = "inactive";
+    this.onstop?.();
+  }
+}
+
+const canvas = {
+  captureStream: () => ({ getVideoTracks: () => [{ requestFrame() {} }], getTracks: () => [] }),
+} as unknown as HTMLCanvasElement;
+
+describe("exportVideo", () => {
+  beforeEach(() => vi.stubGlobal("MediaRecorder", FakeMediaRecorder));
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("rejects with an AbortError when cancelled during a seek", async () => {
+    const video = new StuckVideo();
+    const controller = new AbortController();
+    const processFrame = vi.fn(async () => {});
+    const exported = exportVideo(video as unknown as HTMLVideoElement, canvas, {
+      fps: 10,
+      processFrame,
+      signal: controller.signal,
+    });
+
+    await vi.waitFor(() => expect(video.currentTime).toBe(0));
+    controller.abort();
+    await expect(exported).rejects.toMatchObject({ name: "AbortError" });
+    expect(processFrame).not.toHaveBeenCalled();
+    // A cancelled export leaves the video where it is
+    expect(video.currentTime).toBe(0);
+  });
+
+  it("fails instead of hanging when a seek never completes", async () => {
+    vi.useFakeTimers();
+    const video = new StuckVideo();
+    const exported = exportVideo(video as unknown as HTMLVideoElement, canvas, {
+      fps: 10,
+      processFrame: async () => {},
+    });
+    const failed = expect(exported).rejects.toThrow("Video seek timed out");
+
+    // The frame seek times out, then so does the attempt to restore the playback position
+    await vi.advanceTimersByTimeAsync(10_000);
+    await failed;
+    expect(video.currentTime).toBe(1.5);
+  });
+});